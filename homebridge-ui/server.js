@@ -0,0 +1,2 @@
+// Custom settings UI server, compiled from `src/uiServer.ts`
+require('../dist/uiServer');
@@ -0,0 +1,146 @@
+import { Logger, PlatformConfig } from 'homebridge';
+import { AuthMethod } from './authStrategy';
+import { SideLimitsConfig } from './sideLimits';
+
+// Each side is either a thermostat or heater cooler (mapped temps), or raw -10/+10 level
+export type AccessoryType = 'thermostat' | 'heater-cooler' | 'level';
+
+// Settings for a single Eight Sleep account (i.e. a single pod)
+export interface AccountConfig {
+  name?: string;
+  email: string;
+  password: string;
+  'auth-method'?: AuthMethod;
+  'solo-bed-name'?: string;
+  'left-bed-name'?: string;
+  'right-bed-name'?: string;
+  'solo-accessory-type'?: AccessoryType;
+  'left-accessory-type'?: AccessoryType;
+  'right-accessory-type'?: AccessoryType;
+  // Sides set to `false` aren't added to HomeKit (enabled by default)
+  'solo-enabled'?: boolean;
+  'left-enabled'?: boolean;
+  'right-enabled'?: boolean;
+  // Min/max target & child lock of each side, see `SideLimitsConfig`
+  'solo-limits'?: SideLimitsConfig;
+  'left-limits'?: SideLimitsConfig;
+  'right-limits'?: SideLimitsConfig;
+  // Accessories of the pod, falling back to the top-level setting (see `podAccessoryIsEnabled()`)
+  'alarm-switches'?: boolean;
+  'pod-status-sensors'?: boolean;
+  'prime-switch'?: boolean;
+  'pod-status-name'?: string;
+  'prime-switch-name'?: string;
+  // Optional login of the partner sharing the pod, used for their side of the bed
+  'partner-email'?: string;
+  'partner-password'?: string;
+}
+
+export interface EightSleepAccount {
+  // Included in accessory UUIDs & cache file names so that accounts never
+  // collide. Empty for the top-level `email` account, which keeps the same
+  // UUIDs & cache files as before multiple accounts were supported.
+  readonly key: string;
+  // Position in the list of accounts, used to give each mocked account its own ids
+  readonly index: number;
+  // Used to identify the account in the log
+  readonly label: string;
+  readonly config: AccountConfig;
+}
+
+/**
+ * Accounts are loaded from the top-level `email` & `password` (along with
+ * the top-level bed names), followed by each entry of the `accounts` array.
+ * Entries without credentials, or using an email that has already been
+ * added, are skipped.
+ */
+export const accountsFrom = (config: PlatformConfig, log: Logger) => {
+  const accounts: EightSleepAccount[] = [];
+
+  const addAccount = (accountConfig: AccountConfig, key: string) => {
+    const email = accountConfig.email.toLowerCase();
+    if (accounts.some(account => account.config.email.toLowerCase() === email)) {
+      log.warn('Skipping duplicate Eight Sleep account:', accountConfig.email);
+      return;
+    }
+    accounts.push({
+      key: key,
+      index: accounts.length,
+      label: accountConfig.name ?? accountConfig.email,
+      config: accountConfig,
+    });
+  };
+
+  if (config['email'] && config['password']) {
+    addAccount(config as unknown as AccountConfig, '');
+  }
+
+  const additionalAccounts: Partial<AccountConfig>[] = Array.isArray(config['accounts']) ? config['accounts'] : [];
+  additionalAccounts.forEach((accountConfig, index) => {
+    if (!accountConfig.email || !accountConfig.password) {
+      log.warn(`Skipping account ${accountConfig.name ?? index + 1} - missing email or password`);
+      return;
+    }
+    addAccount(accountConfig as AccountConfig, accountKeyFor(accountConfig.email));
+  });
+
+  return accounts;
+};
+
+const sideEnabledKeys: Record<string, keyof AccountConfig> = {
+  solo: 'solo-enabled',
+  left: 'left-enabled',
+  right: 'right-enabled',
+};
+
+export const sideIsEnabled = (account: EightSleepAccount, side: string) => {
+  return account.config[sideEnabledKeys[side]] !== false;
+};
+
+const sideLimitsKeys: Record<string, keyof AccountConfig> = {
+  solo: 'solo-limits',
+  left: 'left-limits',
+  right: 'right-limits',
+};
+
+export const sideLimitsConfigFor = (account: EightSleepAccount, side: string) => {
+  return account.config[sideLimitsKeys[side]] as SideLimitsConfig | undefined;
+};
+
+type PodAccessoryKey = 'alarm-switches' | 'pod-status-sensors' | 'prime-switch';
+
+// Disabled by default, an account's own setting takes priority over the top-level setting
+export const podAccessoryIsEnabled = (account: EightSleepAccount, config: PlatformConfig, key: PodAccessoryKey) => {
+  return (account.config[key] ?? config[key]) === true;
+};
+
+/**
+ * Partner of `account` (i.e. the user of the other side of the pod), if
+ * partner credentials have been added to the account. Partner sessions are
+ * cached separately, using a key derived from the partner's email.
+ */
+export const partnerAccountFor = (account: EightSleepAccount): EightSleepAccount | null => {
+  const email = account.config['partner-email'];
+  const password = account.config['partner-password'];
+  if (!email || !password) {
+    return null;
+  }
+
+  return {
+    key: partnerAccountKeyFor(email),
+    index: account.index,
+    label: `${account.label} (partner)`,
+    config: {
+      email: email,
+      password: password,
+      'auth-method': account.config['auth-method'],
+    },
+  };
+};
+
+export const partnerAccountKeyFor = (email: string) => `partner-${accountKeyFor(email)}`;
+
+// e.g. 'Jane.Doe@example.com' -> 'jane-doe-example-com'
+export const accountKeyFor = (email: string) => {
+  return email.toLowerCase().replace(/[^a-z0-9]+/g, '-');
+};
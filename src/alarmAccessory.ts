@@ -0,0 +1,201 @@
+import { Service, PlatformAccessory, CharacteristicValue } from 'homebridge';
+import { EightSleepThermostatPlatform } from './platform';
+import { Alarm, AlarmClientAdapter } from './clientAdapter';
+
+const ALARM_SUBTYPE = 'alarm';
+const SNOOZE_SUBTYPE = 'snooze';
+const STOP_SUBTYPE = 'stop';
+
+// 'HH:MM' (24 hour), as accepted by the `Alarm Time` characteristic
+const ALARM_TIME_PATTERN = /^([01]?\d|2[0-3]):([0-5]\d)$/;
+
+/**
+ * Accessory for the vibration alarm of one side of the bed:
+ *  - 'Alarm' switch -> whether the user's next alarm is enabled, along with
+ *    the custom `Alarm Time` characteristic to move the alarm
+ *  - 'Snooze' & 'Stop' switches -> momentary switches for a ringing alarm,
+ *    which turn themselves back off after being pressed
+ *
+ * Alarms are still created in the Eight Sleep app, this accessory only
+ * controls the next one. Alarm state is refreshed by `AlarmClientAdapter`
+ * while there is controller activity, the same as the thermostat.
+ */
+export class EightSleepAlarmAccessory {
+  private alarmService: Service;
+  private snoozeService: Service;
+  private stopService: Service;
+  private readonly log = this.platform.log;
+  private readonly displayName = this.accessory.context.device.displayName as string;
+
+  // Used to log when the alarm starts/stops going off
+  private lastAlarm: Alarm | null = null;
+
+  constructor(
+    private readonly platform: EightSleepThermostatPlatform,
+    private readonly accessory: PlatformAccessory,
+    private readonly alarmClient: AlarmClientAdapter,
+  ) {
+    this.accessory.getService(this.platform.Service.AccessoryInformation)!
+      .setCharacteristic(this.platform.Characteristic.Manufacturer, 'Eight Sleep')
+      .setCharacteristic(this.platform.Characteristic.Model, 'Pod Pro')
+      .setCharacteristic(this.platform.Characteristic.SerialNumber, this.accessory.context.device.pluginSerial);
+
+    this.alarmService = this.switchService(this.displayName, ALARM_SUBTYPE);
+    this.alarmService.getCharacteristic(this.platform.Characteristic.On)
+      .onSet(this.handleAlarmOnSet.bind(this))
+      .onGet(this.handleAlarmOnGet.bind(this));
+
+    if (!this.alarmService.testCharacteristic(this.platform.CustomCharacteristic.AlarmTime)) {
+      this.alarmService.addCharacteristic(this.platform.CustomCharacteristic.AlarmTime);
+    }
+    this.alarmService.getCharacteristic(this.platform.CustomCharacteristic.AlarmTime)
+      .onSet(this.handleAlarmTimeSet.bind(this))
+      .onGet(this.handleAlarmTimeGet.bind(this));
+
+    this.snoozeService = this.switchService(`${this.displayName} Snooze`, SNOOZE_SUBTYPE);
+    this.snoozeService.getCharacteristic(this.platform.Characteristic.On)
+      .onSet(this.handleSnoozeOnSet.bind(this))
+      .onGet(() => false);
+
+    this.stopService = this.switchService(`${this.displayName} Stop`, STOP_SUBTYPE);
+    this.stopService.getCharacteristic(this.platform.Characteristic.On)
+      .onSet(this.handleStopOnSet.bind(this))
+      .onGet(() => false);
+
+    const scheduler = this.platform.scheduler;
+    scheduler.schedule(`Publish ${this.displayName}`, scheduler.intervals.publish, this.publishLatestChanges, true);
+  }
+
+  private switchService(name: string, subtype: string) {
+    const service = this.accessory.getServiceById(this.platform.Service.Switch, subtype) ||
+      this.accessory.addService(this.platform.Service.Switch, name, subtype);
+    service.setCharacteristic(this.platform.Characteristic.Name, name);
+    return service;
+  }
+
+  private publishLatestChanges = async () => {
+    const alarm = await this.alarmClient.loadMostRecentNextAlarm();
+    this.publishAlarm(alarm);
+  };
+
+  private publishAlarm(alarm: Alarm | null) {
+    if (!alarm) {
+      return;
+    }
+
+    if (this.lastAlarm && this.lastAlarm.state !== alarm.state) {
+      this.log.info(`${this.displayName} -> ${alarm.state === 'idle' ? 'stopped' : alarm.state}`);
+    }
+    this.lastAlarm = alarm;
+
+    this.alarmService.updateCharacteristic(this.platform.Characteristic.On, alarm.enabled);
+    this.alarmService.updateCharacteristic(this.platform.CustomCharacteristic.AlarmTime, this.displayTime(alarm));
+  }
+
+  // 'HH:MM:SS' -> 'HH:MM'
+  private displayTime(alarm: Alarm | null) {
+    return alarm ? alarm.time.substring(0, 5) : '';
+  }
+
+  private async nextAlarmOrWarn() {
+    const alarm = await this.alarmClient.getNextAlarm();
+    if (!alarm) {
+      this.log.warn(`No alarms found for ${this.displayName}, alarms need to be created in the Eight Sleep app first`);
+    }
+    return alarm;
+  }
+
+  // Characteristic value is set after the handler returns, so delay
+  // publishing the actual alarm state until after it's been set
+  private revertAlarm(alarm: Alarm | null) {
+    setTimeout(() => {
+      this.alarmService.updateCharacteristic(this.platform.Characteristic.On, alarm?.enabled ?? false);
+      this.alarmService.updateCharacteristic(this.platform.CustomCharacteristic.AlarmTime, this.displayTime(alarm));
+    }, 1000);
+  }
+
+  private resetSwitch(service: Service) {
+    setTimeout(() => service.updateCharacteristic(this.platform.Characteristic.On, false), 1000);
+  }
+
+
+  /**
+   * Alarm Switch Handlers
+   */
+  async handleAlarmOnGet() {
+    const alarm = await this.alarmClient.getNextAlarm();
+    return alarm?.enabled ?? false;
+  }
+
+  async handleAlarmOnSet(value: CharacteristicValue) {
+    const alarm = await this.nextAlarmOrWarn();
+    if (!alarm) {
+      return this.revertAlarm(alarm);
+    }
+
+    const updatedAlarm = await this.alarmClient.setAlarmEnabled(alarm.id, value as boolean);
+    if (!updatedAlarm) {
+      this.log.error(`Failed to ${value ? 'enable' : 'disable'} ${this.displayName}`);
+      return this.revertAlarm(alarm);
+    }
+    this.log.info(`${value ? 'Enabled' : 'Disabled'} ${this.displayName} at ${this.displayTime(updatedAlarm)}`);
+  }
+
+  async handleAlarmTimeGet() {
+    const alarm = await this.alarmClient.getNextAlarm();
+    return this.displayTime(alarm);
+  }
+
+  async handleAlarmTimeSet(value: CharacteristicValue) {
+    const match = `${value}`.trim().match(ALARM_TIME_PATTERN);
+    const alarm = await this.nextAlarmOrWarn();
+
+    if (!match) {
+      this.log.error(`Invalid alarm time '${value}' for ${this.displayName}, expected HH:MM (24 hour)`);
+      return this.revertAlarm(alarm);
+    } else if (!alarm) {
+      return this.revertAlarm(alarm);
+    }
+
+    const time = `${match[1].padStart(2, '0')}:${match[2]}:00`;
+    const updatedAlarm = await this.alarmClient.setAlarmTime(alarm.id, time);
+    if (!updatedAlarm) {
+      this.log.error(`Failed to move ${this.displayName} to ${time}`);
+      return this.revertAlarm(alarm);
+    }
+    this.log.info(`Moved ${this.displayName} to ${this.displayTime(updatedAlarm)}`);
+  }
+
+
+  /**
+   * Momentary Switch Handlers
+   */
+  async handleSnoozeOnSet(value: CharacteristicValue) {
+    this.resetSwitch(this.snoozeService);
+    if (!value) {
+      return;
+    }
+
+    const alarm = await this.nextAlarmOrWarn();
+    if (alarm?.state !== 'ringing') {
+      this.log.info(`${this.displayName} isn't ringing, nothing to snooze`);
+    } else if (!await this.alarmClient.snoozeAlarm(alarm.id)) {
+      this.log.error(`Failed to snooze ${this.displayName}`);
+    }
+  }
+
+  async handleStopOnSet(value: CharacteristicValue) {
+    this.resetSwitch(this.stopService);
+    if (!value) {
+      return;
+    }
+
+    const alarm = await this.nextAlarmOrWarn();
+    if (!alarm || alarm.state === 'idle') {
+      this.log.info(`${this.displayName} isn't ringing, nothing to stop`);
+    } else if (!await this.alarmClient.stopAlarm(alarm.id)) {
+      this.log.error(`Failed to stop ${this.displayName}`);
+    }
+  }
+
+}
@@ -0,0 +1,123 @@
+import { AxiosInstance } from 'axios';
+
+// Private credentials loaded from Homebridge `config.json`
+export interface UserCredentials {
+  email: string;
+  password: string;
+}
+
+export interface Session {
+  expirationDate: string;
+  userId: string;
+  token: string;
+}
+
+export interface AuthResult {
+  session: Session;
+  // Only returned by strategies that support refreshing a session
+  refreshToken?: string;
+}
+
+export type AuthMethod = 'legacy' | 'oauth';
+
+/**
+ * Strategy used by `EightSleepConnection` to establish a session with the
+ * Eight Sleep API & attach it to outgoing requests. Selected with the
+ * `auth-method` config option:
+ *  - `legacy` -> email/password `POST` to `/login`, returns a session token
+ *  - `oauth` -> OAuth2 password grant, returns access & refresh tokens
+ */
+export interface AuthStrategy {
+  readonly method: AuthMethod;
+  login(creds: UserCredentials): Promise<AuthResult>;
+  // Exchange a refresh token for a new session, without a full login
+  refresh?(refreshToken: string): Promise<AuthResult>;
+  applySessionHeaders(session: Session): void;
+}
+
+export const createAuthStrategy = (method: AuthMethod | undefined, client: AxiosInstance): AuthStrategy => {
+  return method === 'oauth' ? new OAuthTokenAuth(client) : new LegacySessionAuth(client);
+};
+
+
+/**
+ * Original email/password login. Sessions can't be refreshed, so a full
+ * login is required each time the session token expires.
+ */
+export class LegacySessionAuth implements AuthStrategy {
+  readonly method = 'legacy';
+
+  constructor(private readonly client: AxiosInstance) {}
+
+  async login(creds: UserCredentials) {
+    const response = await this.client.post('/login', creds);
+    return { session: response.data['session'] as Session };
+  }
+
+  applySessionHeaders(session: Session) {
+    this.client.defaults.headers.common['user-id'] = session.userId;
+    this.client.defaults.headers.common['session-token'] = session.token;
+  }
+}
+
+
+// Client credentials of the Eight Sleep mobile app, required by the token endpoint
+export const OAUTH_TOKEN_URL = 'https://auth-api.8slp.net/v1/tokens';
+const OAUTH_CLIENT_ID = '0894c7f33bb94800a03f1f4df13a4f38';
+const OAUTH_CLIENT_SECRET = 'f0954a3ed5763ba3d06834c73731a32f15f168f47d4f164751275def86db0c76';
+
+interface TokenResponse {
+  access_token: string;
+  expires_in: number; // seconds
+  refresh_token: string;
+  userId: string;
+}
+
+/**
+ * OAuth2 flow used by newer Eight Sleep clients. Access tokens are refreshed
+ * with the refresh token returned by the previous grant, & each refresh
+ * returns a new refresh token (i.e. refresh tokens are rotated).
+ */
+export class OAuthTokenAuth implements AuthStrategy {
+  readonly method = 'oauth';
+
+  constructor(private readonly client: AxiosInstance) {}
+
+  async login(creds: UserCredentials) {
+    return this.requestToken({
+      grant_type: 'password',
+      username: creds.email,
+      password: creds.password,
+    });
+  }
+
+  async refresh(refreshToken: string) {
+    return this.requestToken({
+      grant_type: 'refresh_token',
+      refresh_token: refreshToken,
+    });
+  }
+
+  applySessionHeaders(session: Session) {
+    this.client.defaults.headers.common['user-id'] = session.userId;
+    this.client.defaults.headers.common['authorization'] = `Bearer ${session.token}`;
+  }
+
+  private async requestToken(grant: Record<string, string>): Promise<AuthResult> {
+    const response = await this.client.post(OAUTH_TOKEN_URL, {
+      client_id: OAUTH_CLIENT_ID,
+      client_secret: OAUTH_CLIENT_SECRET,
+      ...grant,
+    });
+    const tokens = response.data as TokenResponse;
+
+    return {
+      session: {
+        userId: tokens.userId,
+        token: tokens.access_token,
+        expirationDate: new Date(Date.now() + tokens.expires_in * 1000).toISOString(),
+      },
+      refreshToken: tokens.refresh_token,
+    };
+  }
+}
@@ -0,0 +1,701 @@
+import { AxiosInstance, AxiosRequestConfig, AxiosResponse } from 'axios';
+import { Logger } from 'homebridge';
+
+/**
+ * Local, stateful stand-in for the subset of the Eight Sleep client API used
+ * by this plugin. Once {@linkcode startIntercepting()} is called, requests made
+ * through the client are answered here instead of `client-api.8slp.net`.
+ *
+ * Supported endpoints:
+ *  - `POST /login`
+ *  - `POST /v1/tokens` (OAuth2 password & refresh token grants)
+ *  - `GET  /users/me`
+ *  - `GET` & `PUT /users/{id}/temperature`
+ *  - `GET  /users/{id}/intervals`
+ *  - `GET  /users/{id}/alarms` & `PUT /users/{id}/alarms/{alarmId}`
+ *  - `PUT  /users/{id}/away-mode`
+ *  - `GET  /devices/{id}`
+ *  - `POST /devices/{id}/priming/tasks`
+ *
+ * Both sides of the bed are simulated. Measured heating levels drift towards
+ * the target level over time (see `heatingRate`), sessions expire after
+ * `tokenLifetime`, and requests can be made to fail with a 401, 429 or 500
+ * either randomly (`failureRate`) or on demand via {@linkcode failNext()}.
+ */
+
+type Side = 'solo' | 'left' | 'right';
+type BedSide = 'left' | 'right';
+
+export interface MockOptions {
+  // Side of the primary user `me` -> determines solo vs. two accessories
+  side: Side;
+  // Milliseconds until an issued session token expires
+  tokenLifetime: number;
+  // Number of levels the measured level moves towards target per minute
+  heatingRate: number;
+  // Probability (0 - 1) that any authenticated request fails with a 429/500
+  failureRate: number;
+  // Artificial network latency in milliseconds
+  latency: number;
+  // Milliseconds a priming task takes to complete
+  primingDuration: number;
+  // Index of the mocked account, so that each account has its own device & user ids
+  instance: number;
+}
+
+const defaultOptions: MockOptions = {
+  side: 'left',
+  tokenLifetime: 1000 * 60 * 60 * 24 * 30,
+  heatingRate: 10,
+  failureRate: 0,
+  latency: 50,
+  primingDuration: 1000 * 60,
+  instance: 0,
+};
+
+// Environment variables read by `mockOptionsFromEnv()`
+export const MOCK_ENV_VAR = 'EIGHT_SLEEP_MOCK_API';
+const MOCK_FAILURE_RATE_ENV_VAR = 'EIGHT_SLEEP_MOCK_FAILURE_RATE';
+const MOCK_TOKEN_LIFETIME_ENV_VAR = 'EIGHT_SLEEP_MOCK_TOKEN_LIFETIME';
+
+// Level the pod drifts towards when a side is turned off
+const AMBIENT_LEVEL = -20;
+
+type SmartPhase = 'bedtime' | 'initial' | 'final';
+type SmartLevels = { bedTimeLevel: number; initialSleepLevel: number; finalSleepLevel: number };
+
+const smartLevelKeys: Record<SmartPhase, keyof SmartLevels> = {
+  bedtime: 'bedTimeLevel',
+  initial: 'initialSleepLevel',
+  final: 'finalSleepLevel',
+};
+
+// Time in bed after which the smart schedule moves from `initial` to `final`
+const FINAL_PHASE_AFTER = 1000 * 60 * 60 * 4;
+
+// Snoozed alarms start ringing again after this long
+const SNOOZE_DURATION = 1000 * 60 * 9;
+
+type AlarmState = 'idle' | 'ringing' | 'snoozed';
+
+interface MockAlarm {
+  id: string;
+  enabled: boolean;
+  time: string;
+  state: AlarmState;
+  snoozedUntil: number | null;
+}
+
+interface MockSideState {
+  userId: string;
+  // Level of the active smart phase, kept in sync by `syncTargetLevel()`
+  targetLevel: number;
+  smart: SmartLevels;
+  measuredLevel: number;
+  isOn: boolean;
+  // Away mode overrides `isOn`, the side stays off until away mode is ended
+  isAway: boolean;
+  lastUpdated: number;
+  // Start of current sleep session & time user got out of bed
+  inBedSince: number | null;
+  outOfBedAt: number | null;
+  // Previous (completed) sleep sessions, newest first
+  completedIntervals: object[];
+  alarms: MockAlarm[];
+}
+
+interface MockSession {
+  userId: string;
+  expirationDate: number;
+}
+
+interface MockResponse {
+  status: number;
+  data?: object;
+  headers?: Record<string, string>;
+}
+
+export class MockEightSleepAPI {
+  readonly deviceId: string;
+  readonly primaryUserId: string;
+  readonly partnerUserId: string;
+
+  private readonly options: MockOptions;
+  private readonly sessions = new Map<string, MockSession>();
+  // OAuth refresh token -> userId, each token is only valid for a single use
+  private readonly refreshTokens = new Map<string, string>();
+  // Logins with these emails are issued sessions for the partner user
+  private readonly partnerEmails = new Set<string>();
+  private readonly sides: Record<BedSide, MockSideState>;
+  private readonly scheduledFailures: number[] = [];
+  private tokenCount = 0;
+
+  private priming = false;
+  private primingEndsAt = 0;
+  private needsPriming = false;
+  private hasWater = true;
+
+  constructor(options: Partial<MockOptions> = {}, private readonly log?: Logger) {
+    this.options = { ...defaultOptions, ...options };
+
+    // e.g. 'mock0device0000000000000000000000' & 'mock0user0primary'
+    const instance = this.options.instance;
+    this.deviceId = `mock${instance}device`.padEnd(33, '0');
+    this.primaryUserId = `mock${instance}user${instance}primary`;
+    this.partnerUserId = `mock${instance}user${instance}partner`;
+
+    const primarySide: BedSide = this.options.side === 'right' ? 'right' : 'left';
+    const partnerSide: BedSide = primarySide === 'left' ? 'right' : 'left';
+    const partnerId = this.options.side === 'solo' ? this.primaryUserId : this.partnerUserId;
+
+    this.sides = {
+      [primarySide]: this.initialSideState(this.primaryUserId),
+      [partnerSide]: this.initialSideState(partnerId),
+    } as Record<BedSide, MockSideState>;
+  }
+
+  private initialSideState(userId: string): MockSideState {
+    return {
+      userId: userId,
+      targetLevel: 0,
+      smart: { bedTimeLevel: 0, initialSleepLevel: 0, finalSleepLevel: 0 },
+      measuredLevel: AMBIENT_LEVEL,
+      isOn: false,
+      isAway: false,
+      lastUpdated: Date.now(),
+      inBedSince: null,
+      outOfBedAt: null,
+      completedIntervals: [this.completedInterval(Date.now() - 1000 * 60 * 60 * 16, 1000 * 60 * 60 * 8)],
+      alarms: [{ id: `${userId}-alarm`, enabled: true, time: '07:00:00', state: 'idle', snoozedUntil: null }],
+    };
+  }
+
+  /**
+   * Test & debugging controls used to simulate failures from the client API
+   */
+  public failNext(status: 401 | 429 | 500, count = 1) {
+    for (let i = 0; i < count; i++) {
+      this.scheduledFailures.push(status);
+    }
+  }
+
+  public expireSessions() {
+    this.sessions.forEach(session => session.expirationDate = Date.now() - 1);
+  }
+
+  public setWaterState(hasWater: boolean, needsPriming = !hasWater) {
+    this.hasWater = hasWater;
+    this.needsPriming = needsPriming;
+  }
+
+  public setPriming(priming: boolean) {
+    this.priming = priming;
+    this.primingEndsAt = priming ? Date.now() + this.options.primingDuration : 0;
+    if (priming) {
+      this.needsPriming = false;
+    }
+  }
+
+  public setPresence(side: BedSide, inBed: boolean) {
+    const state = this.sides[side];
+    if (inBed) {
+      if (state.inBedSince && state.outOfBedAt) {
+        // Got back into bed after leaving -> previous session is complete
+        state.completedIntervals.unshift(this.completedInterval(state.inBedSince, state.outOfBedAt - state.inBedSince));
+        state.inBedSince = null;
+      }
+      state.inBedSince = state.inBedSince ?? Date.now();
+      state.outOfBedAt = null;
+    } else if (state.inBedSince) {
+      state.outOfBedAt = Date.now();
+    }
+  }
+
+  // Start the first alarm of `side` ringing, as if its time has been reached
+  public ringAlarm(side: BedSide) {
+    const alarm = this.sides[side].alarms[0];
+    alarm.state = 'ringing';
+    alarm.snoozedUntil = null;
+  }
+
+  public stateFor(side: BedSide) {
+    this.advanceHeating(side);
+    return { ...this.sides[side] };
+  }
+
+  /**
+   * Entry point for every intercepted request. Resolves with the status code
+   * & response body that the client API would have returned.
+   */
+  async handle(method: string, url: string, headers: Record<string, string>, body: object): Promise<MockResponse> {
+    await new Promise(resolve => setTimeout(resolve, this.options.latency));
+
+    if (method === 'post' && url === '/login') {
+      return this.login(body);
+    } else if (method === 'post' && url === '/v1/tokens') {
+      return this.oauthToken(body);
+    }
+
+    const failure = this.nextFailure();
+    if (failure) {
+      return failure;
+    }
+
+    const bearerToken = headers['authorization']?.replace(/^Bearer /, '');
+    const session = this.sessions.get(headers['session-token'] ?? bearerToken);
+    if (!session || session.expirationDate < Date.now()) {
+      return { status: 401, data: { message: 'Session token is invalid or expired' } };
+    }
+
+    let match: RegExpMatchArray | null;
+
+    if (method === 'get' && url === '/users/me') {
+      return this.userProfile(session.userId);
+    } else if ((match = url.match(/^\/users\/([^/]+)\/temperature$/))) {
+      return this.userTemperature(method, match[1], body);
+    } else if (method === 'get' && (match = url.match(/^\/users\/([^/]+)\/intervals$/))) {
+      return this.userIntervals(match[1]);
+    } else if (method === 'put' && (match = url.match(/^\/users\/([^/]+)\/away-mode$/))) {
+      return this.awayMode(match[1], body);
+    } else if (method === 'get' && (match = url.match(/^\/users\/([^/]+)\/alarms$/))) {
+      return this.userAlarms(match[1]);
+    } else if (method === 'put' && (match = url.match(/^\/users\/([^/]+)\/alarms\/([^/]+)$/))) {
+      return this.updateAlarm(match[1], match[2], body);
+    } else if (method === 'get' && (match = url.match(/^\/devices\/([^/]+)$/))) {
+      return this.device(match[1]);
+    } else if (method === 'post' && (match = url.match(/^\/devices\/([^/]+)\/priming\/tasks$/))) {
+      return this.primingTask(match[1]);
+    }
+    return { status: 404, data: { message: `No mock for ${method.toUpperCase()} ${url}` } };
+  }
+
+  private nextFailure(): MockResponse | null {
+    let status = this.scheduledFailures.shift();
+
+    if (!status && Math.random() < this.options.failureRate) {
+      status = Math.random() < 0.5 ? 429 : 500;
+    }
+
+    switch (status) {
+      case 401:
+        return { status: 401, data: { message: 'Unauthorized' } };
+      case 429:
+        return { status: 429, data: { message: 'Too many requests' }, headers: { 'retry-after': '1' } };
+      case 500:
+        return { status: 500, data: { message: 'Internal server error' } };
+      default:
+        return null;
+    }
+  }
+
+  private login(body: object): MockResponse {
+    const creds = body as { email?: string; password?: string };
+    if (!creds.email || !creds.password) {
+      return { status: 400, data: { message: 'Missing email or password' } };
+    }
+
+    const userId = this.userIdForEmail(creds.email);
+    const { token, expirationDate } = this.issueSession(userId);
+    const session = {
+      userId: userId,
+      token: token,
+      expirationDate: new Date(expirationDate).toISOString(),
+    };
+    return { status: 200, data: { session: session } };
+  }
+
+  // OAuth2 `password` & `refresh_token` grants. Refresh tokens are rotated.
+  private oauthToken(body: object): MockResponse {
+    const grant = body as { grant_type?: string; username?: string; password?: string; refresh_token?: string };
+    let userId: string | undefined;
+
+    if (grant.grant_type === 'password' && grant.username && grant.password) {
+      userId = this.userIdForEmail(grant.username);
+    } else if (grant.grant_type === 'refresh_token' && grant.refresh_token) {
+      userId = this.refreshTokens.get(grant.refresh_token);
+      this.refreshTokens.delete(grant.refresh_token);
+    }
+
+    if (!userId) {
+      return { status: 401, data: { error: 'invalid_grant' } };
+    }
+
+    const { token, expirationDate } = this.issueSession(userId);
+    const refreshToken = `mock-refresh-${this.tokenCount}-${Date.now()}`;
+    this.refreshTokens.set(refreshToken, userId);
+
+    const tokens = {
+      access_token: token,
+      expires_in: Math.round((expirationDate - Date.now()) / 1000),
+      refresh_token: refreshToken,
+      userId: userId,
+    };
+    return { status: 200, data: tokens };
+  }
+
+  private issueSession(userId: string) {
+    const token = `mock-token-${++this.tokenCount}-${Date.now()}`;
+    const expirationDate = Date.now() + this.options.tokenLifetime;
+    this.sessions.set(token, { userId: userId, expirationDate: expirationDate });
+    return { token, expirationDate };
+  }
+
+  /**
+   * Logins using `email` are treated as the partner sharing the pod, i.e.
+   * `/users/me` returns the partner's side & user endpoints of the partner
+   * can be accessed with their own session
+   */
+  addPartner(email: string) {
+    this.partnerEmails.add(email.toLowerCase());
+  }
+
+  private userIdForEmail(email: string) {
+    return this.partnerEmails.has(email.toLowerCase()) ? this.partnerUserId : this.primaryUserId;
+  }
+
+  private userProfile(userId: string): MockResponse {
+    const isPartner = userId === this.partnerUserId && this.options.side !== 'solo';
+    const partnerSide = this.options.side === 'right' ? 'left' : 'right';
+    const user = {
+      userId: userId,
+      email: isPartner ? 'partner@example.com' : 'mock@example.com',
+      currentDevice: {
+        id: this.deviceId,
+        side: isPartner ? partnerSide : this.options.side,
+      },
+    };
+    return { status: 200, data: { user: user } };
+  }
+
+  private device(deviceId: string): MockResponse {
+    if (deviceId !== this.deviceId) {
+      return { status: 404, data: { message: 'Device not found' } };
+    }
+
+    if (this.priming && Date.now() >= this.primingEndsAt) {
+      this.priming = false;
+    }
+
+    const left = this.stateFor('left');
+    const right = this.stateFor('right');
+
+    const result = {
+      deviceId: this.deviceId,
+      leftUserId: left.userId,
+      rightUserId: right.userId,
+      leftHeatingLevel: left.measuredLevel,
+      leftTargetHeatingLevel: left.targetLevel,
+      leftNowHeating: left.isOn && left.measuredLevel < left.targetLevel,
+      rightHeatingLevel: right.measuredLevel,
+      rightTargetHeatingLevel: right.targetLevel,
+      rightNowHeating: right.isOn && right.measuredLevel < right.targetLevel,
+      priming: this.priming,
+      needsPriming: this.needsPriming,
+      hasWater: this.hasWater,
+    };
+    return { status: 200, data: { result: result } };
+  }
+
+  private primingTask(deviceId: string): MockResponse {
+    if (deviceId !== this.deviceId) {
+      return { status: 404, data: { message: 'Device not found' } };
+    } else if (!this.hasWater) {
+      return { status: 400, data: { message: 'Water tank is empty' } };
+    } else if (this.priming) {
+      return { status: 409, data: { message: 'Device is already priming' } };
+    }
+
+    this.setPriming(true);
+    return { status: 200, data: { result: { status: 'queued' } } };
+  }
+
+  private userTemperature(method: string, userId: string, body: object): MockResponse {
+    const side = this.sideForUser(userId);
+    if (!side) {
+      return { status: 404, data: { message: 'User not found' } };
+    }
+
+    if (method === 'put') {
+      const update = body as { currentLevel?: number; currentState?: { type: string }; smart?: Partial<SmartLevels> };
+      const state = this.sides[side];
+      this.advanceHeating(side);
+
+      const levels = [update.currentLevel, ...Object.values(update.smart ?? {})];
+      if (levels.some(level => typeof level === 'number' && (level < -100 || level > 100))) {
+        return { status: 400, data: { message: 'Level out of range' } };
+      }
+
+      // Changing `currentLevel` adjusts the level of the active smart phase
+      if (typeof update.currentLevel === 'number') {
+        state.smart[smartLevelKeys[this.smartPhaseFor(state)]] = update.currentLevel;
+      }
+      if (update.smart) {
+        state.smart = { ...state.smart, ...update.smart };
+      }
+      if (update.currentState) {
+        state.isOn = update.currentState.type !== 'off';
+      }
+      this.syncTargetLevel(state);
+    } else if (method !== 'get') {
+      return { status: 405, data: { message: 'Method not allowed' } };
+    }
+
+    return { status: 200, data: this.userSettingsFor(side) };
+  }
+
+  private userIntervals(userId: string): MockResponse {
+    const side = this.sideForUser(userId);
+    if (!side) {
+      return { status: 404, data: { message: 'User not found' } };
+    }
+
+    const state = this.sides[side];
+    const intervals: object[] = [];
+
+    if (state.inBedSince) {
+      const asleepFor = Math.round(((state.outOfBedAt ?? Date.now()) - state.inBedSince) / 1000);
+      const stages = [
+        { stage: 'awake', duration: Math.min(asleepFor, 600) },
+        { stage: 'light', duration: Math.max(asleepFor - 600, 0) },
+      ];
+      if (state.outOfBedAt) {
+        stages.push({ stage: 'out', duration: Math.round((Date.now() - state.outOfBedAt) / 1000) });
+      }
+      intervals.push({
+        id: `${state.inBedSince}`,
+        ts: new Date(state.inBedSince).toISOString(),
+        incomplete: true,
+        stages: stages,
+      });
+    }
+    intervals.push(...state.completedIntervals);
+    return { status: 200, data: { intervals: intervals } };
+  }
+
+  private awayMode(userId: string, body: object): MockResponse {
+    const side = this.sideForUser(userId);
+    if (!side) {
+      return { status: 404, data: { message: 'User not found' } };
+    }
+
+    const awayPeriod = (body as { awayPeriod?: { start?: string; end?: string } }).awayPeriod;
+    if (!awayPeriod?.start && !awayPeriod?.end) {
+      return { status: 400, data: { message: 'Missing start or end of away period' } };
+    }
+
+    this.advanceHeating(side);
+    this.sides[side].isAway = !!awayPeriod.start;
+    return { status: 200, data: {} };
+  }
+
+  private userAlarms(userId: string): MockResponse {
+    const side = this.sideForUser(userId);
+    if (!side) {
+      return { status: 404, data: { message: 'User not found' } };
+    }
+    return { status: 200, data: { alarms: this.sides[side].alarms.map(alarm => this.alarmResponse(alarm)) } };
+  }
+
+  private updateAlarm(userId: string, alarmId: string, body: object): MockResponse {
+    const side = this.sideForUser(userId);
+    const alarm = side ? this.sides[side].alarms.find(alarm => alarm.id === alarmId) : undefined;
+    if (!alarm) {
+      return { status: 404, data: { message: 'Alarm not found' } };
+    }
+
+    const update = body as { enabled?: boolean; time?: string; state?: AlarmState };
+    if (update.time !== undefined && !/^([01]\d|2[0-3]):[0-5]\d:[0-5]\d$/.test(update.time)) {
+      return { status: 400, data: { message: 'Invalid alarm time' } };
+    } else if (update.state !== undefined && !['idle', 'snoozed'].includes(update.state)) {
+      return { status: 400, data: { message: 'Invalid alarm state' } };
+    } else if (update.state === 'snoozed' && alarm.state !== 'ringing') {
+      return { status: 409, data: { message: 'Alarm is not ringing' } };
+    }
+
+    if (typeof update.enabled === 'boolean') {
+      alarm.enabled = update.enabled;
+    }
+    alarm.time = update.time ?? alarm.time;
+    if (update.state) {
+      alarm.state = update.state;
+      alarm.snoozedUntil = update.state === 'snoozed' ? Date.now() + SNOOZE_DURATION : null;
+    }
+    return { status: 200, data: this.alarmResponse(alarm) };
+  }
+
+  private alarmResponse(alarm: MockAlarm) {
+    if (alarm.state === 'snoozed' && Date.now() >= (alarm.snoozedUntil ?? 0)) {
+      alarm.state = 'ringing';
+      alarm.snoozedUntil = null;
+    }
+    return { id: alarm.id, enabled: alarm.enabled, time: alarm.time, state: alarm.state };
+  }
+
+  // Generates a completed sleep session with randomized biometrics
+  private completedInterval(start: number, duration: number) {
+    const samples = (base: number, spread: number) => {
+      const series: [string, number][] = [];
+      for (let ts = start; ts < start + duration; ts += 1000 * 60 * 30) {
+        series.push([new Date(ts).toISOString(), Math.round(10 * (base + (Math.random() - 0.5) * spread)) / 10]);
+      }
+      return series;
+    };
+
+    return {
+      id: `${start}`,
+      ts: new Date(start).toISOString(),
+      score: 70 + Math.floor(Math.random() * 25),
+      stages: [
+        { stage: 'awake', duration: 600 },
+        { stage: 'light', duration: Math.max(Math.round(duration / 1000) - 600, 0) },
+        { stage: 'out', duration: 0 },
+      ],
+      timeseries: {
+        heartRate: samples(58, 8),
+        hrv: samples(45, 20),
+        respiratoryRate: samples(14, 3),
+      },
+    };
+  }
+
+  private userSettingsFor(side: BedSide) {
+    const state = this.sides[side];
+    this.syncTargetLevel(state);
+    return {
+      currentLevel: state.targetLevel,
+      currentState: { type: state.isAway ? 'away' : state.isOn ? `smart:${this.smartPhaseFor(state)}` : 'off' },
+      smart: { ...state.smart },
+    };
+  }
+
+  // Smart schedule is in `bedtime` phase until user gets into bed, then
+  // `initial` for the first few hours of sleep, & `final` until waking up
+  private smartPhaseFor(state: MockSideState): SmartPhase {
+    if (!state.inBedSince || state.outOfBedAt) {
+      return 'bedtime';
+    }
+    return Date.now() - state.inBedSince < FINAL_PHASE_AFTER ? 'initial' : 'final';
+  }
+
+  private syncTargetLevel(state: MockSideState) {
+    state.targetLevel = state.smart[smartLevelKeys[this.smartPhaseFor(state)]];
+  }
+
+  // Accept the real user ids as well as the `guest-{deviceId}-{side}`
+  // ids the platform generates for the non-owner side of the bed
+  private sideForUser(userId: string): BedSide | null {
+    const guestMatch = userId.match(/^guest-(.+)-(solo|left|right)$/);
+    if (guestMatch && guestMatch[1] === this.deviceId) {
+      return guestMatch[2] === 'right' ? 'right' : 'left';
+    }
+
+    if (this.sides.left.userId === userId) {
+      return 'left';
+    } else if (this.sides.right.userId === userId) {
+      return 'right';
+    }
+    return null;
+  }
+
+  // Move the measured level towards the active target (or ambient when off)
+  // proportionally to the time elapsed since the last update
+  private advanceHeating(side: BedSide) {
+    const state = this.sides[side];
+    this.syncTargetLevel(state);
+    const now = Date.now();
+    const goal = state.isOn && !state.isAway ? state.targetLevel : AMBIENT_LEVEL;
+    const maxStep = Math.floor(((now - state.lastUpdated) / (1000 * 60)) * this.options.heatingRate);
+
+    if (maxStep < 1) {
+      return;
+    }
+
+    const diff = goal - state.measuredLevel;
+    state.measuredLevel += Math.sign(diff) * Math.min(Math.abs(diff), maxStep);
+    state.lastUpdated = now;
+  }
+}
+
+
+/**
+ * Replace the adapter of `client` so that every request is handled by a new
+ * {@linkcode MockEightSleepAPI} instance. Responses with a non-2xx status are
+ * rejected in the same shape as axios' own http adapter errors.
+ *
+ * @returns the mock API instance, which can be used to alter its state
+ */
+export const startIntercepting = (client: AxiosInstance, log?: Logger, options: Partial<MockOptions> = {}) => {
+  const mockAPI = new MockEightSleepAPI(options, log);
+  log?.warn('Eight Sleep API mocking is enabled - no requests will be sent to the Eight Sleep servers');
+  return interceptWith(client, mockAPI, log);
+};
+
+// Answer requests of `client` with an existing mock, e.g. for the partner's
+// client, which must share the state of the pod with the owner's client
+export const interceptWith = (client: AxiosInstance, mockAPI: MockEightSleepAPI, log?: Logger) => {
+  client.defaults.adapter = async (config: AxiosRequestConfig) => {
+    const method = (config.method ?? 'get').toLowerCase();
+    // Absolute URLs (e.g. OAuth token endpoint) are matched by their path
+    const url = (config.url ?? '').replace(/^https?:\/\/[^/]+/, '').replace(/\/+$/, '');
+    const headers = (config.headers ?? {}) as Record<string, string>;
+    const body = typeof config.data === 'string' && config.data ? JSON.parse(config.data) : (config.data ?? {});
+
+    const mockResponse = await mockAPI.handle(method, url, headers, body);
+    log?.debug(`[Mock API] ${method.toUpperCase()} ${url} -> ${mockResponse.status}`);
+
+    const response: AxiosResponse = {
+      data: mockResponse.data ?? {},
+      status: mockResponse.status,
+      statusText: `${mockResponse.status}`,
+      headers: mockResponse.headers ?? {},
+      config: config,
+      request: {},
+    };
+
+    const validateStatus = config.validateStatus ?? ((status: number) => status >= 200 && status < 300);
+    if (validateStatus(response.status)) {
+      return response;
+    }
+
+    const error = new Error(`Request failed with status code ${response.status}`);
+    return Promise.reject(Object.assign(error, {
+      config: config,
+      request: {},
+      response: response,
+      isAxiosError: true,
+      toJSON: () => ({ message: error.message, status: response.status }),
+    }));
+  };
+
+  return mockAPI;
+};
+
+/**
+ * Mocking can be enabled without editing `config.json` by setting the
+ * `EIGHT_SLEEP_MOCK_API` env var to `1`/`true`, or to `solo`/`left`/`right`
+ * to choose the side of the primary user.
+ *
+ * @returns options for the mock API, or null if mocking isn't enabled
+ */
+export const mockOptionsFromEnv = (env: NodeJS.ProcessEnv = process.env): Partial<MockOptions> | null => {
+  const value = env[MOCK_ENV_VAR]?.toLowerCase();
+  if (!value || value === '0' || value === 'false') {
+    return null;
+  }
+
+  const options: Partial<MockOptions> = {};
+  if (value === 'solo' || value === 'left' || value === 'right') {
+    options.side = value;
+  }
+
+  const failureRate = Number(env[MOCK_FAILURE_RATE_ENV_VAR]);
+  if (failureRate > 0) {
+    options.failureRate = Math.min(failureRate, 1);
+  }
+
+  const tokenLifetime = Number(env[MOCK_TOKEN_LIFETIME_ENV_VAR]);
+  if (tokenLifetime > 0) {
+    options.tokenLifetime = tokenLifetime;
+  }
+  return options;
+};
@@ -1,19 +1,57 @@
+import { AxiosInstance } from 'axios';
 import { Logger } from 'homebridge';
 import * as Client from './clientRequest';
-import { updateState, currentState } from './clientRequest';
+import { updateState, currentState, newTask, ClientError, describeClientError } from './clientRequest';
+import { PollScheduler } from './pollScheduler';
 
 interface UserSettings {
   currentLevel: number;
   currentState: CurrentState;
+  smart?: SmartLevels;
 }
 
 type CurrentState = { type: DeviceMode };
 
+/**
+ * Smart schedule splits the night into 3 phases, each with its own level:
+ *  - `bedtime` -> before getting into bed
+ *  - `initial` -> first few hours of sleep
+ *  - `final` -> remainder of the night until waking up
+ *
+ * While on, client API reports the active phase in the current state type,
+ * i.e. `smart:bedtime`, `smart:initial` or `smart:final`.
+ */
+export type SmartPhase = 'bedtime' | 'initial' | 'final';
+export const smartPhases: SmartPhase[] = ['bedtime', 'initial', 'final'];
+
+export interface SmartLevels {
+  bedTimeLevel: number;
+  initialSleepLevel: number;
+  finalSleepLevel: number;
+}
+
+const smartLevelKeys: Record<SmartPhase, keyof SmartLevels> = {
+  bedtime: 'bedTimeLevel',
+  initial: 'initialSleepLevel',
+  final: 'finalSleepLevel',
+};
+
+export interface SmartSchedule {
+  // `null` when device is off
+  phase: SmartPhase | null;
+  levels: SmartLevels;
+}
+
 enum DeviceMode {
   on = 'smart',
   off = 'off',
+  // User is travelling, the side is off & changes are ignored until they return
+  away = 'away',
 }
 
+// Away mode is started/ended by sending the start/end of the away period
+type AwayModeRequest = { awayPeriod: { start: string } | { end: string } };
+
 type SharedDeviceResponse = { result: SharedDeviceSettings };
 
 interface SharedDeviceSettings {
@@ -23,11 +61,65 @@ interface SharedDeviceSettings {
   rightHeatingLevel: number;
   rightTargetHeatingLevel: number;
   rightNowHeating: boolean;
+  // User assigned to each side, not returned for solo devices
+  leftUserId?: string;
+  rightUserId?: string;
   priming: boolean;
   needsPriming: boolean;
   hasWater: boolean;
 }
 
+export interface DeviceStatus {
+  hasWater: boolean;
+  needsPriming: boolean;
+  priming: boolean;
+}
+
+type SleepIntervalsResponse = { intervals: SleepInterval[] };
+
+// Sleep sessions ('intervals') are returned newest first. While a user is
+// in bed the most recent interval is `incomplete`, & its latest stage will
+// be `out` once they've left the bed.
+interface SleepInterval {
+  id: string;
+  ts: string;
+  incomplete?: boolean;
+  score?: number;
+  stages: { stage: string; duration: number }[];
+  timeseries?: Partial<Record<'heartRate' | 'hrv' | 'respiratoryRate', [string, number][]>>;
+}
+
+// Summary of a completed sleep session, derived from a `SleepInterval`
+export interface SleepSession {
+  id: string;
+  date: string;
+  score: number | null;
+  heartRate: number | null;
+  hrv: number | null;
+  respiratoryRate: number | null;
+}
+
+type AlarmsResponse = { alarms: Alarm[] };
+
+// `ringing` or `snoozed` while an alarm is going off, otherwise `idle`
+export type AlarmState = 'idle' | 'ringing' | 'snoozed';
+
+// Vibration alarm of a user, set up in the Eight Sleep app
+export interface Alarm {
+  id: string;
+  enabled: boolean;
+  // Local time of day the alarm goes off, i.e. 'HH:MM:SS'
+  time: string;
+  state: AlarmState;
+}
+
+interface PrimingTask {
+  notifications: {
+    users: string[];
+    meta: string;
+  };
+}
+
 const stateFor = (newState: DeviceMode): CurrentState => {
   return { type: newState };
 };
@@ -35,66 +127,127 @@ const stateFor = (newState: DeviceMode): CurrentState => {
 type Endpoint = (id: string) => string;
 const resolveUsersUrl: Endpoint = (id) => `/users/${id}/temperature`;
 const resolveDevicesUrl: Endpoint = (id) => `/devices/${id}`;
+const resolveIntervalsUrl: Endpoint = (id) => `/users/${id}/intervals`;
+const resolvePrimingUrl: Endpoint = (id) => `/devices/${id}/priming/tasks`;
+const resolveAlarmsUrl: Endpoint = (id) => `/users/${id}/alarms`;
+const resolveAwayModeUrl: Endpoint = (id) => `/users/${id}/away-mode`;
+
+// e.g. '07:30:00' -> 450
+const minutesOfDay = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+/**
+ * Last value successfully fetched from client API. While requests are failing
+ * the last good value is kept (rather than replaced with `null`), along with how
+ * stale it is so accessories can report "No Response" once it's too old.
+ */
+class LastKnownValue<T> {
+  private value: T | null = null;
+  private updatedAt: number | null = null;
+  private error: ClientError | null = null;
+  private readonly listeners: ((value: T) => void)[] = [];
+
+  constructor(
+    private readonly name: string,
+    private readonly log: Logger,
+  ) {}
+
+  get current() {
+    return this.value;
+  }
+
+  /**
+   * Milliseconds since the value was fetched if the latest request failed,
+   * `0` while requests are succeeding, or `Infinity` if it's never been fetched
+   */
+  get staleness() {
+    if (this.updatedAt === null) {
+      return Infinity;
+    }
+    return this.error ? Date.now() - this.updatedAt : 0;
+  }
+
+  update(value: T) {
+    if (this.error) {
+      this.log.info(`Fetched ${this.name} from API again after failing with:`, describeClientError(this.error));
+    }
+    this.value = value;
+    this.updatedAt = Date.now();
+    this.error = null;
+    this.listeners.forEach(listener => listener(value));
+  }
+
+  // Called with each value fetched (or returned by a `PUT`)
+  onUpdate(listener: (value: T) => void) {
+    this.listeners.push(listener);
+  }
+
+  // Only the first of consecutive failures is logged as a warning
+  fail(error: ClientError) {
+    const log = this.error ? this.log.debug : this.log.warn;
+    log.call(this.log, `Unable to fetch ${this.name} from API, keeping last known value:`, describeClientError(error));
+    this.error = error;
+  }
+}
 
 
 export class PlatformClientAdapter {
   private devicesEndpoint = resolveDevicesUrl(this.sharedDeviceId);
+  private lastDeviceSettings = new LastKnownValue<SharedDeviceSettings>('device status', this.log);
   private sharedDeviceSettings = this.loadSharedDeviceState();
 
-  // Time of last CurrentTemp `GET` handler call by controller
-  private lastActive = Date.now();
-  private refreshInterval?: ReturnType<typeof setInterval> | null;
-
   constructor(
     readonly sharedDeviceId: string,
+    private readonly client: AxiosInstance,
     private readonly log: Logger,
+    private readonly scheduler: PollScheduler,
   ) {
-    this.refreshInterval = this.startRefreshing();
+    this.scheduler.schedule(`Device ${sharedDeviceId}`, this.scheduler.intervals.refresh, this.refreshState, true);
   }
 
+  // Last known device state is returned if the request fails
   private async loadSharedDeviceState() {
-    try {
-      const response = await Client.get(currentState<SharedDeviceResponse>(this.devicesEndpoint), this.log);
+    await this.scheduler.request(this.devicesEndpoint, () => this.fetchSharedDeviceState());
+    return this.lastDeviceSettings.current;
+  }
+
+  // Shared by callers of an in-flight request, so listeners are called once for each fetch
+  private async fetchSharedDeviceState() {
+    const request = currentState<SharedDeviceResponse>(this.devicesEndpoint);
+    const result = await Client.getResult(this.client, request, this.log);
+    if (result.ok) {
       this.log.debug('Fetched current device status from API');
-      return response ? response.result : null;
-    } catch (error) {
-      this.log.error('Error fetching current device status from API:', error);
-      return null;
+      this.lastDeviceSettings.update(result.data.result);
+    } else {
+      this.lastDeviceSettings.fail(result.error);
     }
   }
 
+  // Milliseconds the device state has been stale for, see `LastKnownValue.staleness`
+  get staleness() {
+    return this.lastDeviceSettings.staleness;
+  }
+
+  // Called each time new device state is fetched, e.g. to publish it elsewhere
+  onRefresh(listener: () => void) {
+    this.lastDeviceSettings.onUpdate(listener);
+  }
+
+  // Run by scheduler at the refresh interval while there is controller activity
   private refreshState = () => {
     this.sharedDeviceSettings = this.loadSharedDeviceState();
-    this.clearRefreshIfNotActive();
   };
 
-  private startRefreshing() {
-    return setInterval(this.refreshState, 1000 * 10);
-  }
-
   /**
-   * When `GET` CurrentTemp handler fired, update last active timestamp.
-   * Continuing refreshing state every 15 seconds while active, but once
-   * handler hasn't been fired in more than 1.5 minutes, cancel the refresh
-   * interval... i.e. we only continue hitting the client API while a home
-   * controller is actively requesting an updated current temperature,
-   * otherwise go into standby to prevent unnecessary requests
+   * When `GET` CurrentTemp handler fired, mark the scheduler as active. If the
+   * scheduler was in standby, this immediately triggers `refreshState()` &
+   * resumes refreshing... i.e. we only continue hitting the client API while
+   * a home controller is actively requesting an updated current temperature
    */
-  private clearRefreshIfNotActive() {
-    if (this.refreshInterval && this.lastActive < Date.now() - 1000 * 90) {
-      // Go into standby until next time there is controller activity
-      global.clearInterval(this.refreshInterval);
-      this.refreshInterval = null;
-    }
-  }
-
   private setAsActive() {
-    this.lastActive = Date.now();
-
-    if (!this.refreshInterval) {
-      this.sharedDeviceSettings = this.loadSharedDeviceState();
-      this.refreshInterval = this.startRefreshing();
-    }
+    this.scheduler.markActive();
   }
 
   // Initiated by accessory get handler, triggers new active refresh interval
@@ -117,6 +270,72 @@ export class PlatformClientAdapter {
     return this.determineLevelFor(newSettings, side);
   }
 
+  // Real user id of each side, used in place of a guest id for the partner's side
+  async getUserIdForSide(side: string) {
+    const settings = await this.sharedDeviceSettings;
+    if (side === 'left') {
+      return settings?.leftUserId ?? null;
+    } else if (side === 'right') {
+      return settings?.rightUserId ?? null;
+    }
+    return null;
+  }
+
+  // Water tank & priming status -> shared by both sides of the device
+  async getDeviceStatus() {
+    const currSettings = await this.sharedDeviceSettings;
+    this.setAsActive();
+
+    if (currSettings) {
+      return this.deviceStatusFrom(currSettings);
+    } else {
+      const newSettings = await this.sharedDeviceSettings;
+      return this.deviceStatusFrom(newSettings);
+    }
+  }
+
+  async loadMostRecentDeviceStatus() {
+    const newSettings = await this.sharedDeviceSettings;
+    return this.deviceStatusFrom(newSettings);
+  }
+
+  /**
+   * Fetch device state once without starting the active refresh interval.
+   * Used to keep sensors up to date (e.g. tank empty notifications) while
+   * there is no controller activity. If already refreshing, this is a no-op.
+   */
+  refreshDeviceStatus() {
+    if (!this.scheduler.isActive) {
+      this.sharedDeviceSettings = this.loadSharedDeviceState();
+    }
+  }
+
+  /**
+   * `POST` a new priming task for the device. The client API responds as
+   * soon as the task is queued, so the `priming` flag of the device status
+   * should be watched to determine when priming actually starts/completes.
+   *
+   * @returns `true` if the priming task was accepted by client API
+   */
+  async startPriming(userId: string) {
+    const task: PrimingTask = { notifications: { users: [userId], meta: 'rePriming' } };
+    const response = await Client.post(this.client, newTask<PrimingTask>(resolvePrimingUrl(this.sharedDeviceId), task), this.log);
+    // Refresh now so the next device status reflects the new task
+    this.sharedDeviceSettings = this.loadSharedDeviceState();
+    return response !== null;
+  }
+
+  private deviceStatusFrom(settings: SharedDeviceSettings | null): DeviceStatus | null {
+    if (!settings) {
+      return null;
+    }
+    return {
+      hasWater: settings.hasWater,
+      needsPriming: settings.needsPriming,
+      priming: settings.priming,
+    };
+  }
+
   private determineLevelFor(settings: SharedDeviceSettings | null, side: 'solo' | 'left' | 'right') {
     if (side === 'solo') {
       return this.getSoloLevel(settings);
@@ -145,31 +364,89 @@ export class PlatformClientAdapter {
 
 export class AccessoryClientAdapter {
   private usersEndpoint = resolveUsersUrl(this.accessoryUserId);
+  private intervalsEndpoint = resolveIntervalsUrl(this.accessoryUserId);
+  private lastUserSettings = new LastKnownValue<UserSettings>(`settings of user ${this.accessoryUserId}`, this.log);
   private currentUserSettings = this.fetchCurrentSettings();
-
-  // Time of last `GET` handler call by controller to fetch on/off state OR target temp
-  private lastActive = Date.now();
-  private refreshInterval?: ReturnType<typeof setInterval> | null;
+  private currentSleepIntervals: Promise<SleepInterval[] | null> = Promise.resolve(null);
 
   constructor(
     readonly accessoryUserId: string,
+    private readonly client: AxiosInstance,
     private readonly log: Logger,
+    private readonly scheduler: PollScheduler,
   ) {
-    this.refreshInterval = this.startRefreshing();
+    this.scheduler.schedule(`User ${accessoryUserId}`, this.scheduler.intervals.refresh, this.refreshState, true);
   }
 
+  // Last known settings are returned if the request fails
   private async fetchCurrentSettings() {
-    try {
-      // Returns `level` and `currentState`, i.e. mode `type: smart` or `type: off`
-      const response = await Client.get(currentState<UserSettings>(this.usersEndpoint), this.log);
+    await this.scheduler.request(this.usersEndpoint, () => this.fetchUserSettings());
+    return this.lastUserSettings.current;
+  }
+
+  // Shared by callers of an in-flight request, so listeners are called once for each fetch
+  private async fetchUserSettings() {
+    // Returns `level` and `currentState`, i.e. mode `type: smart` or `type: off`
+    const request = currentState<UserSettings>(this.usersEndpoint);
+    const result = await Client.getResult(this.client, request, this.log);
+    if (result.ok) {
       this.log.debug('Fetched current user device settings from API');
-      return response;
+      this.lastUserSettings.update(result.data);
+    } else {
+      this.lastUserSettings.fail(result.error);
+    }
+  }
+
+  // Milliseconds the user's settings have been stale for, see `LastKnownValue.staleness`
+  get staleness() {
+    return this.lastUserSettings.staleness;
+  }
+
+  // Called each time new settings are fetched, or returned after being updated
+  onRefresh(listener: () => void) {
+    this.lastUserSettings.onUpdate(listener);
+  }
+
+  private async fetchSleepIntervals() {
+    try {
+      const request = currentState<SleepIntervalsResponse>(this.intervalsEndpoint);
+      const response = await this.scheduler.request(this.intervalsEndpoint, () => Client.get(this.client, request, this.log));
+      this.log.debug('Fetched sleep intervals from API');
+      return response ? response.intervals : null;
     } catch (error) {
-      this.log.error('Error fetching current user device settings from API');
+      this.log.error('Error fetching sleep intervals from API');
       return null;
     }
   }
 
+  private isInBed(intervals: SleepInterval[]) {
+    const latest = intervals[0];
+    if (!latest || !latest.incomplete) {
+      return false;
+    }
+    const latestStage = latest.stages[latest.stages.length - 1];
+    return latestStage ? latestStage.stage !== 'out' : false;
+  }
+
+  private sleepSessionFrom(interval: SleepInterval): SleepSession {
+    const average = (series?: [string, number][]) => {
+      if (!series || series.length === 0) {
+        return null;
+      }
+      const sum = series.reduce((total, [, value]) => total + value, 0);
+      return Math.round(10 * sum / series.length) / 10;
+    };
+
+    return {
+      id: interval.id,
+      date: interval.ts,
+      score: interval.score ?? null,
+      heartRate: average(interval.timeseries?.heartRate),
+      hrv: average(interval.timeseries?.hrv),
+      respiratoryRate: average(interval.timeseries?.respiratoryRate),
+    };
+  }
+
   async getUserTargetLevel() {
     const settings = await this.currentUserSettings;
     this.setAccessoryAsActive();
@@ -179,11 +456,48 @@ export class AccessoryClientAdapter {
     return settings ? settings.currentLevel : 0;
   }
 
-  // Current Device On/Off Status & Updates
+  // Current Device On/Off Status & Updates. Away mode counts as off.
   async getAccessoryIsOn() {
     const settings = await this.currentUserSettings;
     this.setAccessoryAsActive();
-    return settings?.currentState.type !== DeviceMode.off;
+    return settings ? !this.isOffOrAway(settings) : true;
+  }
+
+  async getIsAway() {
+    const settings = await this.currentUserSettings;
+    this.setAccessoryAsActive();
+    return settings?.currentState.type === DeviceMode.away;
+  }
+
+  async loadMostRecentIsAway() {
+    const settings = await this.currentUserSettings;
+    return settings?.currentState.type === DeviceMode.away;
+  }
+
+  private isOffOrAway(settings: UserSettings) {
+    return settings.currentState.type === DeviceMode.off || settings.currentState.type === DeviceMode.away;
+  }
+
+  /**
+   * Sleep intervals are fetched separately from the user's temperature settings
+   * since they're only needed for bed presence & sleep session data. Intervals
+   * are refreshed by the accessory on its own interval (regardless of controller
+   * activity) so that automations are triggered when getting into/out of bed.
+   */
+  refreshSleepIntervals() {
+    this.currentSleepIntervals = this.fetchSleepIntervals();
+  }
+
+  async getBedPresence() {
+    const intervals = await this.currentSleepIntervals;
+    return intervals ? this.isInBed(intervals) : null;
+  }
+
+  // Most recent *completed* sleep session, i.e. last night's sleep
+  async getLastSleepSession() {
+    const intervals = await this.currentSleepIntervals;
+    const lastCompleted = intervals?.find(interval => !interval.incomplete);
+    return lastCompleted ? this.sleepSessionFrom(lastCompleted) : null;
   }
 
   // Get latest state without triggering active refresh interval
@@ -191,13 +505,53 @@ export class AccessoryClientAdapter {
     const settings = await this.currentUserSettings;
     if (settings) {
       const targetLevel = settings.currentLevel;
-      const targetState = settings.currentState.type === DeviceMode.off ? 0 : 3;
+      const targetState = this.isOffOrAway(settings) ? 0 : 3;
       return [targetState, targetLevel];
     } else {
       return [0, 0];
     }
   }
 
+  // Latest on/off & target level, or `null` if settings couldn't be fetched
+  async loadMostRecentTarget() {
+    const settings = await this.currentUserSettings;
+    return settings ? { isOn: !this.isOffOrAway(settings), level: settings.currentLevel } : null;
+  }
+
+  /**
+   * Fetch settings once without starting the active refresh interval, the
+   * same as `PlatformClientAdapter.refreshDeviceStatus()`. Used to record
+   * temperature history while there is no controller activity.
+   */
+  refreshSettings() {
+    if (!this.scheduler.isActive) {
+      this.currentUserSettings = this.fetchCurrentSettings();
+    }
+  }
+
+  // Smart schedule phase & levels, triggers active refresh interval
+  async getSmartSchedule() {
+    const settings = await this.currentUserSettings;
+    this.setAccessoryAsActive();
+    return this.smartScheduleFrom(settings);
+  }
+
+  async loadMostRecentSmartSchedule() {
+    const settings = await this.currentUserSettings;
+    return this.smartScheduleFrom(settings);
+  }
+
+  private smartScheduleFrom(settings: UserSettings | null): SmartSchedule | null {
+    if (!settings || !settings.smart) {
+      return null;
+    }
+    const phase = settings.currentState.type.split(':')[1] as SmartPhase | undefined;
+    return {
+      phase: phase && smartPhases.includes(phase) ? phase : null,
+      levels: settings.smart,
+    };
+  }
+
   /**
    * `PUT` methods below to alter client device state after local changes.
    * - Each of these methods returns a full response object `UserSettings`
@@ -205,12 +559,39 @@ export class AccessoryClientAdapter {
    *   `currentUserSettings` Promise with each client `PUT` response
    */
 
-  // Update Bed Temperature ('level') --> target temp locally == 'currentLevel' in client API
+  /**
+   * Update Bed Temperature ('level') --> target temp locally == 'currentLevel' in client API.
+   * If the request fails, settings are fetched again so the level accepted by the
+   * client API can be restored.
+   *
+   * @returns level in the response, or `null` if the request failed
+   */
   async updateUserTargetLevel(newLevel: number) {
-    const response = await Client.put(updateState<UserSettings>(this.usersEndpoint, 'currentLevel', newLevel));
+    const response = await Client.put(this.client, updateState<UserSettings>(this.usersEndpoint, 'currentLevel', newLevel), this.log);
+    if (!response) {
+      this.setAccessoryAsActive();
+      this.currentUserSettings = this.fetchCurrentSettings();
+      return null;
+    }
+    this.updateCurrentSettingsFrom(response);
+    this.log.debug('Updated bed temp (level):', response.currentLevel);
+    return response.currentLevel;
+  }
+
+  // Update the level of a single phase of the smart schedule. Client API
+  // expects all 3 phase levels, so the other levels are sent unchanged
+  async updateSmartLevel(phase: SmartPhase, newLevel: number) {
+    const schedule = await this.loadMostRecentSmartSchedule();
+    if (!schedule) {
+      this.log.error('Unable to update smart schedule, current schedule has not been loaded');
+      return null;
+    }
+
+    const newLevels: SmartLevels = { ...schedule.levels, [smartLevelKeys[phase]]: newLevel };
+    const response = await Client.put(this.client, updateState<UserSettings>(this.usersEndpoint, 'smart', newLevels), this.log);
     this.updateCurrentSettingsFrom(response);
-    this.log.debug('Updated bed temp (level):', response?.currentLevel);
-    return response ? response.currentLevel : newLevel;
+    this.log.debug(`Updated smart ${phase} level:`, response?.smart?.[smartLevelKeys[phase]]);
+    return response?.smart ? response.smart[smartLevelKeys[phase]] : null;
   }
 
   /**
@@ -218,53 +599,161 @@ export class AccessoryClientAdapter {
      * depending on when the request is made, it makes checking if response
      * is === `BedState.on` complicated (`on` enum value is just 'smart').
      * Easier to ensure not 'off' instead of checking if some 'smart:...'
+     *
+     * @returns `false` if the request failed or the side is still off
      */
   async turnOnAccessory() {
     const onState = stateFor(DeviceMode.on);
-    const response = await Client.put(updateState<UserSettings>(this.usersEndpoint, 'currentState', onState));
+    const response = await Client.put(this.client, updateState<UserSettings>(this.usersEndpoint, 'currentState', onState), this.log);
     this.updateCurrentSettingsFrom(response);
-    return response?.currentState.type !== DeviceMode.off;
+    return response !== null && response.currentState.type !== DeviceMode.off;
   }
 
   async turnOffAccessory() {
     const offState = stateFor(DeviceMode.off);
-    const response = await Client.put(updateState<UserSettings>(this.usersEndpoint, 'currentState', offState));
+    const response = await Client.put(this.client, updateState<UserSettings>(this.usersEndpoint, 'currentState', offState), this.log);
     this.updateCurrentSettingsFrom(response);
     return response?.currentState.type === DeviceMode.off;
   }
 
+  /**
+   * Start or end away mode, starting/ending the away period now. Client API
+   * doesn't return the user's settings in the response, so they're fetched
+   * again to pick up the new state.
+   *
+   * @returns `true` if the request was accepted by client API
+   */
+  async updateAwayMode(isAway: boolean) {
+    const now = new Date().toISOString();
+    const awayPeriod = isAway ? { start: now } : { end: now };
+    const request = updateState<AwayModeRequest>(resolveAwayModeUrl(this.accessoryUserId), 'awayPeriod', awayPeriod);
+    const response = await Client.put(this.client, request, this.log);
+
+    this.setAccessoryAsActive();
+    this.currentUserSettings = this.fetchCurrentSettings();
+    this.log.debug(`${isAway ? 'Started' : 'Ended'} away mode:`, response !== null);
+    return response !== null;
+  }
+
+  // Failed requests don't change the settings, so the last known settings are kept.
+  // Settings are replaced before `update()`, so refresh listeners load the response.
   private updateCurrentSettingsFrom(response: UserSettings | null) {
     this.setAccessoryAsActive();
-    this.currentUserSettings = Promise.resolve(response);
+    this.currentUserSettings = Promise.resolve(response ?? this.lastUserSettings.current);
+    if (response) {
+      this.lastUserSettings.update(response);
+    }
   }
 
   private setAccessoryAsActive() {
-    this.lastActive = Date.now();
-
-    if (!this.refreshInterval) {
-      this.currentUserSettings = this.fetchCurrentSettings();
-      this.refreshInterval = this.startRefreshing();
-    }
+    this.scheduler.markActive();
   }
 
   /**
-   * Refresh interval to continue updating state for accessory
+   * Run by scheduler to continue updating state for accessory
    * while there is Homekit controller actvity
    */
-  private refreshState = async () => {
+  private refreshState = () => {
     this.currentUserSettings = this.fetchCurrentSettings();
-    this.clearRefreshIfNotActive();
   };
+}
+
+
+
+/**
+ * Vibration alarms of a single user, fetched from the same per-user endpoints
+ * as `AccessoryClientAdapter`. Alarms are only refreshed while there is
+ * controller activity, & each `PUT` response replaces the stored alarm.
+ */
+export class AlarmClientAdapter {
+  private alarmsEndpoint = resolveAlarmsUrl(this.alarmUserId);
+  private currentAlarms = this.fetchAlarms();
+
+  constructor(
+    readonly alarmUserId: string,
+    private readonly client: AxiosInstance,
+    private readonly log: Logger,
+    private readonly scheduler: PollScheduler,
+  ) {
+    this.scheduler.schedule(`Alarms ${alarmUserId}`, this.scheduler.intervals.refresh, this.refreshState, true);
+  }
+
+  private async fetchAlarms() {
+    try {
+      const request = currentState<AlarmsResponse>(this.alarmsEndpoint);
+      const response = await this.scheduler.request(this.alarmsEndpoint, () => Client.get(this.client, request, this.log));
+      this.log.debug('Fetched alarms from API');
+      return response ? response.alarms : null;
+    } catch (error) {
+      this.log.error('Error fetching alarms from API');
+      return null;
+    }
+  }
+
+  // Initiated by accessory get handler, triggers new active refresh interval
+  async getNextAlarm() {
+    const alarms = await this.currentAlarms;
+    this.scheduler.markActive();
+    return alarms ? this.nextAlarmFrom(alarms) : null;
+  }
+
+  // Fetches latest value w/o triggering new active refresh interval
+  async loadMostRecentNextAlarm() {
+    const alarms = await this.currentAlarms;
+    return alarms ? this.nextAlarmFrom(alarms) : null;
+  }
+
+  /**
+   * Alarm that is currently going off (ringing or snoozed). Otherwise, the
+   * alarm with the next `time` after now, whether or not it's enabled, so
+   * that disabling the next alarm doesn't move on to a different alarm.
+   */
+  private nextAlarmFrom(alarms: Alarm[]) {
+    const activeAlarm = alarms.find(alarm => alarm.state !== 'idle');
+    if (activeAlarm) {
+      return activeAlarm;
+    }
+
+    const now = new Date();
+    const nowMinutes = now.getHours() * 60 + now.getMinutes();
+    const minutesUntil = (alarm: Alarm) => (minutesOfDay(alarm.time) - nowMinutes + 24 * 60) % (24 * 60);
 
-  private startRefreshing() {
-    return setInterval(this.refreshState, 1000 * 10);
+    return alarms.reduce<Alarm | null>((next, alarm) => {
+      return !next || minutesUntil(alarm) < minutesUntil(next) ? alarm : next;
+    }, null);
   }
 
-  private clearRefreshIfNotActive() {
-    if (this.refreshInterval && this.lastActive < Date.now() - 1000 * 90) {
-      // Go into standby until next time there is controller activity
-      global.clearInterval(this.refreshInterval);
-      this.refreshInterval = null;
+  async setAlarmEnabled(alarmId: string, enabled: boolean) {
+    return this.updateAlarm(alarmId, 'enabled', enabled);
+  }
+
+  // `time` as 'HH:MM:SS'
+  async setAlarmTime(alarmId: string, time: string) {
+    return this.updateAlarm(alarmId, 'time', time);
+  }
+
+  async snoozeAlarm(alarmId: string) {
+    return this.updateAlarm(alarmId, 'state', 'snoozed');
+  }
+
+  async stopAlarm(alarmId: string) {
+    return this.updateAlarm(alarmId, 'state', 'idle');
+  }
+
+  private async updateAlarm<K extends keyof Alarm>(alarmId: string, key: K, newValue: Alarm[K]) {
+    const endpoint = `${this.alarmsEndpoint}/${alarmId}`;
+    const response = await Client.put(this.client, updateState<Alarm>(endpoint, key, newValue), this.log);
+    this.scheduler.markActive();
+
+    if (response) {
+      const alarms = await this.currentAlarms;
+      this.currentAlarms = Promise.resolve(alarms?.map(alarm => alarm.id === response.id ? response : alarm) ?? [response]);
+      this.log.debug(`Updated alarm ${key}:`, response[key]);
     }
+    return response;
   }
-}
\ No newline at end of file
+
+  private refreshState = () => {
+    this.currentAlarms = this.fetchAlarms();
+  };
+}
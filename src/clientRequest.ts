@@ -1,4 +1,4 @@
-import axios from 'axios';
+import axios, { AxiosInstance } from 'axios';
 import agentkeepalive from 'agentkeepalive';
 import { Logger } from 'homebridge';
 
@@ -10,7 +10,9 @@ axios.defaults.headers.common = {
   'User-Agent': 'Eight%20Sleep/15296 CFNetwork/1331.0.7 Darwin/21.4.0',
 };
 
-export const clientAPI = axios.create({
+// Session headers are set on the defaults of the client, so each Eight Sleep
+// account needs a separate client instance (see `EightSleepConnection`)
+export const createClientAPI = () => axios.create({
   baseURL: 'https://client-api.8slp.net/v1',
   httpsAgent: new agentkeepalive.HttpsAgent({ keepAlive: true }),
 });
@@ -31,6 +33,10 @@ export const updateState = <T>(endpoint: string, key: keyof T, newValue: ClientD
   return generateRequest(endpoint, body);
 };
 
+export const newTask = <T>(endpoint: string, body: Partial<T>) => {
+  return generateRequest<T>(endpoint, body);
+};
+
 const makeReqBody = <T>(key: keyof T, data: ClientDataType) => {
   const body: Partial<T> = {};
   body[key as string] = data;
@@ -44,22 +50,74 @@ const generateRequest = <T>(endpoint: string, data?: Partial<T>): Request<T> =>
   };
 };
 
-export const put = async <T>(req: Request<T>, log?: Logger) => {
-  try {
-    const res = await clientAPI.put(req.endpoint, req.body);
-    return res.data as T;
-  } catch (error) {
-    log?.debug('PUT request failed:', error);
-    return null;
+/**
+ * Reason a request to client API failed, once any retries have been exhausted:
+ *  - `auth` -> 401/403, i.e. the session was rejected & couldn't be renewed
+ *  - `rate-limit` -> 429, still being rate limited after waiting to retry
+ *  - `network` -> no response was received (timeout, DNS, connection reset etc.)
+ *  - `server` -> any other error response, e.g. a 500
+ */
+export type ClientErrorType = 'auth' | 'rate-limit' | 'network' | 'server';
+
+export interface ClientError {
+  type: ClientErrorType;
+  status?: number;
+  message: string;
+}
+
+export type ClientResult<T> = { ok: true; data: T } | { ok: false; error: ClientError };
+
+export const clientErrorFrom = (error: unknown): ClientError => {
+  const message = error instanceof Error ? error.message : `${error}`;
+  const status = axios.isAxiosError(error) ? error.response?.status : undefined;
+  if (status === undefined) {
+    return { type: 'network', message: message };
+  } else if (status === 401 || status === 403) {
+    return { type: 'auth', status: status, message: message };
+  } else if (status === 429) {
+    return { type: 'rate-limit', status: status, message: message };
   }
+  return { type: 'server', status: status, message: message };
+};
+
+// e.g. 'rate-limit (429)', for logging without any details of the request
+export const describeClientError = (error: ClientError) => {
+  return error.status ? `${error.type} (${error.status})` : `${error.type} (${error.message})`;
 };
 
-export const get = async <T>(req: Request<T>, log?: Logger) => {
+const dataOrNull = <T>(result: ClientResult<T>) => result.ok ? result.data : null;
+
+const send = async <T>(method: string, sendRequest: () => Promise<{ data: unknown }>, log?: Logger): Promise<ClientResult<T>> => {
   try {
-    const res = await clientAPI.get(req.endpoint);
-    return res.data as T;
+    const res = await sendRequest();
+    return { ok: true, data: res.data as T };
   } catch (error) {
-    log?.debug('GET request failed:', error);
-    return null;
+    log?.debug(`${method} request failed:`, error);
+    return { ok: false, error: clientErrorFrom(error) };
   }
-};
\ No newline at end of file
+};
+
+export const putResult = <T>(client: AxiosInstance, req: Request<T>, log?: Logger) => {
+  return send<T>('PUT', () => client.put(req.endpoint, req.body), log);
+};
+
+export const postResult = <T>(client: AxiosInstance, req: Request<T>, log?: Logger) => {
+  return send<T>('POST', () => client.post(req.endpoint, req.body), log);
+};
+
+export const getResult = <T>(client: AxiosInstance, req: Request<T>, log?: Logger) => {
+  return send<T>('GET', () => client.get(req.endpoint), log);
+};
+
+// Data of the response, or `null` if the request failed for any reason
+export const put = async <T>(client: AxiosInstance, req: Request<T>, log?: Logger) => {
+  return dataOrNull(await putResult(client, req, log));
+};
+
+export const post = async <T>(client: AxiosInstance, req: Request<T>, log?: Logger) => {
+  return dataOrNull(await postResult(client, req, log));
+};
+
+export const get = async <T>(client: AxiosInstance, req: Request<T>, log?: Logger) => {
+  return dataOrNull(await getResult(client, req, log));
+};
@@ -0,0 +1,194 @@
+import { API, Characteristic, Formats, Perms, Units, WithUUID } from 'homebridge';
+
+// Satisfies both `getCharacteristic()` & `testCharacteristic()` of `Service`
+export type CustomCharacteristicType = WithUUID<typeof Characteristic> & WithUUID<new () => Characteristic>;
+
+export interface CustomCharacteristics {
+  SleepScore: CustomCharacteristicType;
+  AverageHeartRate: CustomCharacteristicType;
+  HeartRateVariability: CustomCharacteristicType;
+  RespiratoryRate: CustomCharacteristicType;
+  SmartPhase: CustomCharacteristicType;
+  BedtimeTemperature: CustomCharacteristicType;
+  InitialSleepTemperature: CustomCharacteristicType;
+  FinalSleepTemperature: CustomCharacteristicType;
+  CurrentBedLevel: CustomCharacteristicType;
+  AlarmTime: CustomCharacteristicType;
+}
+
+/**
+ * Custom characteristics for data that has no equivalent in the HomeKit spec.
+ * These aren't displayed in the Home app, but can be read by 3rd party apps
+ * (e.g. Eve, Controller) & other Homebridge tooling.
+ *
+ * Characteristic classes must extend the `Characteristic` class provided by
+ * Homebridge at runtime, so they're created from the `API` instance passed
+ * to the platform on startup.
+ */
+export const createCustomCharacteristics = (api: API): CustomCharacteristics => {
+  class SleepScore extends api.hap.Characteristic {
+    static readonly UUID: string = 'E8A3C2B0-5B1E-4C7A-9D5F-3A1B2C4D5E01';
+
+    constructor() {
+      super('Sleep Score', SleepScore.UUID, {
+        format: Formats.UINT8,
+        perms: [Perms.PAIRED_READ, Perms.NOTIFY],
+        minValue: 0,
+        maxValue: 100,
+        minStep: 1,
+      });
+      this.value = this.getDefaultValue();
+    }
+  }
+
+  class AverageHeartRate extends api.hap.Characteristic {
+    static readonly UUID: string = 'E8A3C2B0-5B1E-4C7A-9D5F-3A1B2C4D5E02';
+
+    constructor() {
+      super('Average Heart Rate', AverageHeartRate.UUID, {
+        format: Formats.FLOAT,
+        perms: [Perms.PAIRED_READ, Perms.NOTIFY],
+        unit: 'bpm',
+        minValue: 0,
+        maxValue: 250,
+        minStep: 0.1,
+      });
+      this.value = this.getDefaultValue();
+    }
+  }
+
+  class HeartRateVariability extends api.hap.Characteristic {
+    static readonly UUID: string = 'E8A3C2B0-5B1E-4C7A-9D5F-3A1B2C4D5E03';
+
+    constructor() {
+      super('Heart Rate Variability', HeartRateVariability.UUID, {
+        format: Formats.FLOAT,
+        perms: [Perms.PAIRED_READ, Perms.NOTIFY],
+        unit: 'ms',
+        minValue: 0,
+        maxValue: 500,
+        minStep: 0.1,
+      });
+      this.value = this.getDefaultValue();
+    }
+  }
+
+  class RespiratoryRate extends api.hap.Characteristic {
+    static readonly UUID: string = 'E8A3C2B0-5B1E-4C7A-9D5F-3A1B2C4D5E04';
+
+    constructor() {
+      super('Respiratory Rate', RespiratoryRate.UUID, {
+        format: Formats.FLOAT,
+        perms: [Perms.PAIRED_READ, Perms.NOTIFY],
+        unit: 'breaths/min',
+        minValue: 0,
+        maxValue: 60,
+        minStep: 0.1,
+      });
+      this.value = this.getDefaultValue();
+    }
+  }
+
+  // Active phase of smart schedule -> 'bedtime', 'initial', 'final' or 'off'
+  class SmartPhase extends api.hap.Characteristic {
+    static readonly UUID: string = 'E8A3C2B0-5B1E-4C7A-9D5F-3A1B2C4D5E05';
+
+    constructor() {
+      super('Smart Phase', SmartPhase.UUID, {
+        format: Formats.STRING,
+        perms: [Perms.PAIRED_READ, Perms.NOTIFY],
+      });
+      this.value = this.getDefaultValue();
+    }
+  }
+
+  // Target temps for each phase of the smart schedule. Range & step are
+  // updated by the accessory to match its `TargetTemperature` props.
+  class BedtimeTemperature extends api.hap.Characteristic {
+    static readonly UUID: string = 'E8A3C2B0-5B1E-4C7A-9D5F-3A1B2C4D5E06';
+
+    constructor() {
+      super('Bedtime Temperature', BedtimeTemperature.UUID, {
+        format: Formats.FLOAT,
+        perms: [Perms.PAIRED_READ, Perms.PAIRED_WRITE, Perms.NOTIFY],
+        unit: Units.CELSIUS,
+        minValue: 10,
+        maxValue: 45.1,
+      });
+      this.value = this.getDefaultValue();
+    }
+  }
+
+  class InitialSleepTemperature extends api.hap.Characteristic {
+    static readonly UUID: string = 'E8A3C2B0-5B1E-4C7A-9D5F-3A1B2C4D5E07';
+
+    constructor() {
+      super('Initial Sleep Temperature', InitialSleepTemperature.UUID, {
+        format: Formats.FLOAT,
+        perms: [Perms.PAIRED_READ, Perms.PAIRED_WRITE, Perms.NOTIFY],
+        unit: Units.CELSIUS,
+        minValue: 10,
+        maxValue: 45.1,
+      });
+      this.value = this.getDefaultValue();
+    }
+  }
+
+  class FinalSleepTemperature extends api.hap.Characteristic {
+    static readonly UUID: string = 'E8A3C2B0-5B1E-4C7A-9D5F-3A1B2C4D5E08';
+
+    constructor() {
+      super('Final Sleep Temperature', FinalSleepTemperature.UUID, {
+        format: Formats.FLOAT,
+        perms: [Perms.PAIRED_READ, Perms.PAIRED_WRITE, Perms.NOTIFY],
+        unit: Units.CELSIUS,
+        minValue: 10,
+        maxValue: 45.1,
+      });
+      this.value = this.getDefaultValue();
+    }
+  }
+
+  // Measured level of the bed on the -10/+10 scale of the Eight Sleep app,
+  // used by the `level` accessory type in place of the current temperature
+  class CurrentBedLevel extends api.hap.Characteristic {
+    static readonly UUID: string = 'E8A3C2B0-5B1E-4C7A-9D5F-3A1B2C4D5E09';
+
+    constructor() {
+      super('Current Bed Level', CurrentBedLevel.UUID, {
+        format: Formats.FLOAT,
+        perms: [Perms.PAIRED_READ, Perms.NOTIFY],
+        minValue: -10,
+        maxValue: 10,
+        minStep: 0.1,
+      });
+      this.value = this.getDefaultValue();
+    }
+  }
+
+  // Time of the next alarm as 'HH:MM' (24 hour), writable to move the alarm
+  class AlarmTime extends api.hap.Characteristic {
+    static readonly UUID: string = 'E8A3C2B0-5B1E-4C7A-9D5F-3A1B2C4D5E0A';
+
+    constructor() {
+      super('Alarm Time', AlarmTime.UUID, {
+        format: Formats.STRING,
+        perms: [Perms.PAIRED_READ, Perms.PAIRED_WRITE, Perms.NOTIFY],
+      });
+      this.value = this.getDefaultValue();
+    }
+  }
+
+  return {
+    SleepScore,
+    AverageHeartRate,
+    HeartRateVariability,
+    RespiratoryRate,
+    SmartPhase,
+    BedtimeTemperature,
+    InitialSleepTemperature,
+    FinalSleepTemperature,
+    CurrentBedLevel,
+    AlarmTime,
+  };
+};
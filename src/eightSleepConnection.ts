@@ -1,26 +1,36 @@
-import { readFile, writeFile, mkdir } from 'fs/promises';
 import path from 'path';
 import { EightSleepThermostatPlatform } from './platform';
-import { clientAPI } from './clientRequest';
-// ** Uncomment next line to import/enable mocking data
-// import * as AxiosMock from './axiosMock';
+import { createClientAPI } from './clientRequest';
+import * as AxiosMock from './axiosMock';
+import { attachRetryInterceptor } from './requestRetry';
+import { AuthMethod, Session, UserCredentials, createAuthStrategy } from './authStrategy';
+import { EightSleepAccount, partnerAccountFor } from './accounts';
+import { SessionCache } from './sessionCache';
 
 const EIGHT_SLEEP_DIR = '8slp';
+// Sessions issued by the mock API are cached separately so they never
+// replace (or get mistaken for) a session from the real Eight Sleep API
+const MOCK_EIGHT_SLEEP_DIR = '8slp-mock';
 const SESSION_CACHE_FILE = '_login.txt';
 const PRIMARY_USER_CACHE_FILE = '_users_me.txt';
+const REFRESH_TOKEN_CACHE_FILE = '_refresh_token.txt';
 type cacheable = string | object | Session | PrimaryUser;
 
-// Private credentials loaded from Homebridge `config.json`
-interface UserCredentials {
-  email: string;
-  password: string;
-}
+// Directory within the Homebridge storage directory that sessions & history are cached in
+export const cacheDirFor = (storagePath: string, mocked: boolean) => {
+  return path.resolve(storagePath, mocked ? MOCK_EIGHT_SLEEP_DIR : EIGHT_SLEEP_DIR);
+};
 
-interface Session {
-  expirationDate: string;
-  userId: string;
-  token: string;
-}
+// e.g. ('temperature_history_left.json', 'jane-doe-example-com') -> 'temperature_history_left_jane-doe-example-com.json'
+export const accountCachePath = (cacheDir: string, accountKey: string, fileName: string) => {
+  const { name, ext } = path.parse(fileName);
+  const suffix = accountKey ? `_${accountKey}` : '';
+  return path.resolve(cacheDir, `${name}${suffix}${ext}`);
+};
+
+// Sessions are cached along with the auth method used to create them, so
+// that a cached session isn't reused after switching `auth-method`
+type CachedSession = Session & { authMethod?: AuthMethod };
 
 // Eight Sleep API defines primaryUser as `me`
 // - `currentDevice.id` is a shared property loaded with user `me`
@@ -38,28 +48,81 @@ interface PrimaryUser {
 
 export class EightSleepConnection {
   private readonly userCreds: UserCredentials;
-  private readonly cacheDir = path.resolve(this.platform.api.user.storagePath(), EIGHT_SLEEP_DIR);
-  private readonly sessionCachePath = path.resolve(this.cacheDir, SESSION_CACHE_FILE);
-  private readonly primaryUserCachePath = path.resolve(this.cacheDir, PRIMARY_USER_CACHE_FILE);
+  private readonly mockOptions = this.resolveMockOptions();
+  readonly cacheDir = cacheDirFor(this.platform.api.user.storagePath(), this.mockOptions !== null);
+  private readonly sessionCachePath = this.cachePath(SESSION_CACHE_FILE);
+  private readonly primaryUserCachePath = this.cachePath(PRIMARY_USER_CACHE_FILE);
+  private readonly refreshTokenCachePath = this.cachePath(REFRESH_TOKEN_CACHE_FILE);
   private readonly log = this.platform.log;
+  private readonly cache = new SessionCache(this.cacheDir, this.platform.config['cache-encryption-key'], this.log);
+
+  // Used for every request made on behalf of this account
+  readonly client = createClientAPI();
+
+  // Legacy `/login` session or OAuth2 tokens, selected with `auth-method`
+  private readonly auth = createAuthStrategy(
+    this.account.config['auth-method'] ?? this.platform.config['auth-method'], this.client);
+
+  // Set when requests are being answered by the local mock API
+  public readonly mockAPI = this.startMockAPI();
 
   public session = this.prepareSession();
   public primaryUserDevice = this.preparePrimaryUser();
 
+  // In-flight reauthentication, shared if multiple requests fail with a 401
+  private reauthentication: Promise<boolean> | null = null;
+
+  // Connection using the partner's own login, if partner credentials are set.
+  // Used for requests to the partner's side of the bed (see `discoverDevices()`)
+  public readonly partner = this.createPartnerConnection();
+
   constructor(
     public readonly platform: EightSleepThermostatPlatform,
-    email: string,
-    password: string) {
+    readonly account: EightSleepAccount,
+    // Connection of the pod owner, set for the partner's connection
+    private readonly owner?: EightSleepConnection) {
     // User credentials read from `config.json` on homebridge startup
     this.userCreds = {
-      email: email,
-      password: password,
+      email: account.config.email,
+      password: account.config.password,
     };
-    // ** Uncomment import statement/next line to enable mocking for debugging
-    // AxiosMock.startIntercepting(clientAPI, this.log);
+    // Metrics are recorded for every attempt, so need to see responses before they're retried
+    this.platform.metrics?.addConnection(this, this.client);
+    attachRetryInterceptor(this.client, this.reauthenticate, this.log);
     this.preserveConnection();
   }
 
+  // Mock API is enabled with `mock-api` in `config.json`, or by setting the
+  // `EIGHT_SLEEP_MOCK_API` env var (see `axiosMock.ts` for accepted values)
+  private resolveMockOptions() {
+    const envOptions = AxiosMock.mockOptionsFromEnv();
+    if (envOptions) {
+      return { ...envOptions, instance: this.account.index };
+    }
+    return this.platform.config['mock-api'] ? { instance: this.account.index } : null;
+  }
+
+  private startMockAPI() {
+    if (!this.mockOptions) {
+      return null;
+    } else if (this.owner?.mockAPI) {
+      // Partner shares the pod of the owner, so must also share its mock state
+      this.owner.mockAPI.addPartner(this.account.config.email);
+      return AxiosMock.interceptWith(this.client, this.owner.mockAPI, this.log);
+    }
+    return AxiosMock.startIntercepting(this.client, this.log, this.mockOptions);
+  }
+
+  private createPartnerConnection() {
+    const partnerAccount = this.owner ? null : partnerAccountFor(this.account);
+    return partnerAccount ? new EightSleepConnection(this.platform, partnerAccount, this) : null;
+  }
+
+  // Cache files are suffixed with the account key, e.g. `_login_{key}.txt`
+  cachePath(fileName: string) {
+    return accountCachePath(this.cacheDir, this.account.key, fileName);
+  }
+
   /**
    * This method will initiate a chain of events to either load the session
    * containing a userId & token info from cache, or send a new login request
@@ -70,7 +133,8 @@ export class EightSleepConnection {
    *
    * Associated methods:
    * {@linkcode loadCachedSession()} // loads cache & verifies token
-   * {@linkcode login()} // if no cached session, will re-login
+   * {@linkcode refreshSession()} // if no cached session, tries refresh token
+   * {@linkcode login()} // if unable to refresh, will re-login
    *
    * @returns a Promise containing the loaded/fetched session
    *
@@ -81,9 +145,9 @@ export class EightSleepConnection {
       let session = await this.loadCachedSession();
       if (!session || !this.isValid(session)) {
         this.eraseCache(this.sessionCachePath);
-        session = await this.login();
+        session = await this.refreshSession() ?? await this.login();
       }
-      this.updateClientSessionHeaders(session);
+      this.auth.applySessionHeaders(session);
       return session;
     } catch (error) {
       this.log.error('Failed to prepare connection to Eight Sleep:', error);
@@ -95,7 +159,16 @@ export class EightSleepConnection {
   // proceeding when this method returns to `prepareSession()`
   private async loadCachedSession() {
     try {
-      const sessionData = await this.readCache<Session>(this.sessionCachePath);
+      const cachedSession = await this.readCache<CachedSession>(this.sessionCachePath);
+      if (!cachedSession) {
+        return null;
+      }
+
+      const { authMethod = 'legacy', ...sessionData } = cachedSession;
+      if (authMethod !== this.auth.method) {
+        this.log.debug('Cached session was created with a different auth method, ignoring');
+        return null;
+      }
       return sessionData;
     } catch (error) {
       this.log.debug('Error loading session from cache', error);
@@ -106,12 +179,44 @@ export class EightSleepConnection {
   // Forward error up the chain as a failure here means we have already
   // exhausted any chance at a successful session load
   private async login() {
-    const response = await clientAPI.post('/login', this.userCreds);
-    const session = response.data['session'] as Session;
+    const { session, refreshToken } = await this.auth.login(this.userCreds);
+    return this.storeSession(session, refreshToken);
+  }
+
+  // Exchange cached refresh token for a new session (OAuth only). Errors are
+  // caught so that a revoked/expired refresh token falls back to `login()`
+  private async refreshSession() {
+    if (!this.auth.refresh) {
+      return null;
+    }
+
+    try {
+      const cachedToken = await this.readCache<string>(this.refreshTokenCachePath);
+      if (!cachedToken) {
+        return null;
+      }
+      const { session, refreshToken } = await this.auth.refresh(cachedToken);
+      this.log.debug('Refreshed session using cached refresh token');
+      return this.storeSession(session, refreshToken);
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : error;
+      this.log.debug('Unable to refresh session, logging in again:', reason);
+      this.eraseCache(this.refreshTokenCachePath);
+      return null;
+    }
+  }
+
+  private storeSession(session: Session, refreshToken?: string) {
     if (!this.isValid(session)) {
       throw new Error(`Unexpected issue with Eight Sleep API session - ${JSON.stringify(session)}`);
     }
-    this.writeToCache(this.sessionCachePath, session);
+    const cachedSession: CachedSession = { ...session, authMethod: this.auth.method };
+    this.writeToCache(this.sessionCachePath, cachedSession);
+
+    // Refresh tokens are rotated, so always replace the cached token
+    if (refreshToken) {
+      this.writeToCache(this.refreshTokenCachePath, refreshToken);
+    }
     return session;
   }
 
@@ -124,11 +229,6 @@ export class EightSleepConnection {
     return (session.token && session.expirationDate && session.userId) ? true : false;
   }
 
-  private updateClientSessionHeaders(session: Session) {
-    clientAPI.defaults.headers.common['user-id'] = session.userId;
-    clientAPI.defaults.headers.common['session-token'] = session.token;
-  }
-
 
   /**
    * Session validation & reauthentication methods. Can be initiated externally
@@ -144,15 +244,31 @@ export class EightSleepConnection {
     this.log.debug('Session validated');
   };
 
-  private async reauthenticate() {
+  /**
+   * Erases the cached session & logs in again. Also called by the request
+   * retry interceptor when a request fails with a 401 (e.g. revoked token).
+   *
+   * @returns `true` if a new valid session was established
+   */
+  public reauthenticate = () => {
+    if (!this.reauthentication) {
+      this.reauthentication = this.startReauthentication()
+        .finally(() => this.reauthentication = null);
+    }
+    return this.reauthentication;
+  };
+
+  private async startReauthentication() {
     await this.eraseCache(this.sessionCachePath);
     this.session = this.prepareSession();
+    const session = await this.session;
+    return session !== null;
   }
 
   // Check if reauth is needed every 10 minutes. Currently
   // being used only for debugging purposes...
   private preserveConnection() {
-    setInterval(this.validateActiveSession, 1000 * 60 * 10);
+    this.platform.scheduler.schedule('Session validation', 1000 * 60 * 10, this.validateActiveSession);
   }
 
 
@@ -206,7 +322,7 @@ export class EightSleepConnection {
     if (!session) {
       throw new Error('No session');
     }
-    const response = await clientAPI.get('/users/me');
+    const response = await this.client.get('/users/me');
     const user = response.data['user'] as PrimaryUser;
     const device = this.verifyDeviceFor(user);
     if (!device) {
@@ -225,57 +341,34 @@ export class EightSleepConnection {
 
   /**
    * Caching functionality for both session data (token, userId, tokenExp) and the
-   * primary user's full profile (we only care about 'currentDevice')
+   * primary user's full profile (we only care about 'currentDevice'). Files are
+   * encrypted & written atomically by {@linkcode SessionCache}.
    *
    * Associated methods:
-   * {@linkcode readCache()}
+   * {@linkcode readCache()} // `null` if there's no cache, or it's unreadable
    * {@linkcode writeToCache()}
    * {@linkcode eraseCache()}
-   * {@linkcode makeCacheDirectory()}
    *
    * @category Caching {@linkcode Session} & {@linkcode PrimaryUser}
    */
-  private async readCache<T>(filepath: string) {
-    try {
-      const cache = await readFile(filepath, 'utf-8');
-      const parsedData = JSON.parse(cache) as T;
-      return parsedData;
-    } catch {
-      return Promise.reject('Cache is empty or data in cache could not be parsed.');
-    }
+  private async readCache<T extends cacheable>(filepath: string) {
+    return this.cache.read<T>(filepath);
   }
 
   private async writeToCache(filepath: string, data: cacheable) {
     try {
-      await this.makeCacheDirectory();
-      const jsonData = JSON.stringify(data);
-      await writeFile(filepath, jsonData);
-    } catch {
-      this.log.debug('Unable to write to cache');
+      await this.cache.write(filepath, data);
+    } catch (error) {
+      this.log.debug('Unable to write to cache:', error);
     }
   }
 
   private async eraseCache(filepath: string) {
     try {
-      await this.writeToCache(filepath, '');
+      await this.cache.erase(filepath);
     } catch {
       this.log.debug('Unable to erase cache at:', filepath);
     }
   }
 
-  private async makeCacheDirectory() {
-    try {
-      await mkdir(this.cacheDir);
-    } catch (error) {
-      /*
-        - If dir already exists, caught error code will be 'EEXIST'
-        * Only throw if it's NOT an 'EEXIST' error, since we can still
-        proceed to write to cache directory if it is
-      */
-      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
-        throw error;
-      }
-    }
-  }
-
 }
\ No newline at end of file
@@ -0,0 +1,247 @@
+import http from 'http';
+import { AxiosError, AxiosInstance, AxiosRequestConfig, AxiosResponse } from 'axios';
+import { Logger, PlatformConfig } from 'homebridge';
+import { Counter, Gauge, Histogram, Registry } from 'prom-client';
+import { AccessoryClientAdapter, PlatformClientAdapter } from './clientAdapter';
+import { clientErrorFrom } from './clientRequest';
+import { EightSleepConnection } from './eightSleepConnection';
+import { TwoWayTempMapper } from './twoWayTempMapper';
+
+const METRICS_PATH = '/metrics';
+
+// Only local scrapes unless `metrics-host` is set, state & session expiry aren't shared with the network
+const DEFAULT_HOST = '127.0.0.1';
+
+// Label of metrics (& requests) that are for the whole pod rather than one side
+const ALL_SIDES = 'all';
+
+// Path segments following these are ids, e.g. `/users/{id}/temperature`
+const ID_PARENT_SEGMENTS = ['users', 'devices', 'alarms', 'tasks'];
+
+// Request latency buckets (seconds), retries are delayed by 1s or more
+const LATENCY_BUCKETS = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+type SideLabels = { device_id: string; side: string };
+type TimedConfig = AxiosRequestConfig & { metricsStartedAt?: number };
+
+// One side of a pod, registered by its accessory
+interface SideSource {
+  deviceId: string;
+  side: 'solo' | 'left' | 'right';
+  platformClient: PlatformClientAdapter;
+  accessoryClient: AccessoryClientAdapter;
+}
+
+// e.g. 'https://client-api.8slp.net/v1/users/abc123/temperature?x=1' -> '/users/{id}/temperature'
+const endpointLabel = (url = '') => {
+  const segments = url.replace(/^https?:\/\/[^/]+/, '').split('?')[0].split('/');
+  return segments
+    .map((segment, index) => ID_PARENT_SEGMENTS.includes(segments[index - 1]) && segment !== 'me' ? '{id}' : segment)
+    .join('/');
+};
+
+/**
+ * Prometheus metrics of every pod & the requests made to client API, served
+ * at `http://{metrics-host}:{metrics-port}/metrics` when `metrics-port` is set
+ * (only on `127.0.0.1` unless `metrics-host` is set).
+ *
+ *  - State of each side (levels, temps & on/off) & of the pod (water/priming)
+ *    is read from the last values fetched by the adapters on each scrape, so
+ *    scraping never causes extra requests to client API
+ *  - Requests are counted & timed by an interceptor on the client of each
+ *    connection, including each retry, by endpoint & outcome
+ *
+ * Every metric is labeled with `device_id` & `side` (`all` for the whole pod).
+ */
+export class PodMetrics {
+  private readonly registry = new Registry();
+  private readonly sides: SideSource[] = [];
+  private readonly connections: EightSleepConnection[] = [];
+  // Device id & side of each user id, used to label requests for a user
+  private readonly userSides = new Map<string, SideLabels>();
+  // Pod of each connection, once its primary user has been loaded
+  private readonly connectionDeviceIds = new Map<EightSleepConnection, string>();
+  private server: http.Server | null = null;
+
+  private readonly currentLevel = this.sideGauge('eightsleep_current_level', 'Measured level of the side (-100 to +100)');
+  private readonly targetLevel = this.sideGauge('eightsleep_target_level', 'Target level of the side (-100 to +100)');
+  private readonly currentTemp = this.sideGauge('eightsleep_current_temperature_celsius', 'Measured temperature of the side (°C)');
+  private readonly targetTemp = this.sideGauge('eightsleep_target_temperature_celsius', 'Target temperature of the side (°C)');
+  private readonly isOn = this.sideGauge('eightsleep_on', 'Whether the side is on (1) or off/away (0)');
+  private readonly staleness = this.sideGauge('eightsleep_stale_seconds', 'Age of the last known state while requests are failing');
+  private readonly hasWater = this.sideGauge('eightsleep_has_water', 'Whether the water tank of the pod is full (1) or empty (0)');
+  private readonly needsPriming = this.sideGauge('eightsleep_needs_priming', 'Whether the pod needs priming');
+  private readonly priming = this.sideGauge('eightsleep_priming', 'Whether the pod is priming');
+  private readonly sessionExpiry = this.sideGauge('eightsleep_session_expiry_timestamp_seconds', 'Expiry of the session for the side');
+
+  private readonly requests = new Counter({
+    name: 'eightsleep_api_requests_total',
+    help: 'Requests made to the Eight Sleep API, by outcome (success, auth, rate-limit, network or server)',
+    labelNames: ['device_id', 'side', 'method', 'endpoint', 'outcome'],
+    registers: [this.registry],
+  });
+
+  private readonly requestDuration = new Histogram({
+    name: 'eightsleep_api_request_duration_seconds',
+    help: 'Latency of requests made to the Eight Sleep API',
+    labelNames: ['device_id', 'side', 'method', 'endpoint'],
+    buckets: LATENCY_BUCKETS,
+    registers: [this.registry],
+  });
+
+  constructor(
+    private readonly port: number,
+    private readonly host: string,
+    private readonly tempMapper: TwoWayTempMapper,
+    private readonly log: Logger,
+  ) {}
+
+  private sideGauge(name: string, help: string) {
+    return new Gauge({ name: name, help: help, labelNames: ['device_id', 'side'], registers: [this.registry] });
+  }
+
+  start() {
+    this.server = http.createServer((request, response) => {
+      if (request.method !== 'GET' || request.url?.split('?')[0] !== METRICS_PATH) {
+        response.writeHead(404).end();
+        return;
+      }
+      this.collect()
+        .then(() => this.registry.metrics())
+        .then(metrics => response.writeHead(200, { 'Content-Type': this.registry.contentType }).end(metrics))
+        .catch(error => {
+          this.log.debug('Unable to collect metrics:', error);
+          response.writeHead(500).end();
+        });
+    });
+
+    this.server.on('error', error => this.log.error(`Unable to serve metrics on port ${this.port}:`, error.message));
+    this.server.listen(this.port, this.host, () => {
+      this.log.info(`Serving Prometheus metrics at ${this.boundURL()}`);
+    });
+  }
+
+  // Address the server is actually listening on, e.g. `http://127.0.0.1:9100/metrics`
+  private boundURL() {
+    const address = this.server?.address();
+    if (!address || typeof address === 'string') {
+      return `http://${this.host}:${this.port}${METRICS_PATH}`;
+    }
+    const host = address.address.includes(':') ? `[${address.address}]` : address.address;
+    return `http://${host}:${address.port}${METRICS_PATH}`;
+  }
+
+  stop() {
+    this.server?.close();
+    this.server = null;
+  }
+
+  addSide(source: SideSource) {
+    this.sides.push(source);
+    this.userSides.set(source.accessoryClient.accessoryUserId, { device_id: source.deviceId, side: source.side });
+  }
+
+  /**
+   * Counts & times every request made with the client of `connection`. Needs
+   * to be attached before the retry interceptor, so each attempt is recorded.
+   */
+  addConnection(connection: EightSleepConnection, client: AxiosInstance) {
+    this.connections.push(connection);
+    connection.primaryUserDevice.then(primaryUserDevice => {
+      if (primaryUserDevice) {
+        this.connectionDeviceIds.set(connection, primaryUserDevice.id);
+      }
+    });
+
+    client.interceptors.request.use((config: TimedConfig) => {
+      config.metricsStartedAt = Date.now();
+      return config;
+    });
+    client.interceptors.response.use(
+      (response: AxiosResponse) => {
+        this.recordRequest(connection, response.config, 'success');
+        return response;
+      },
+      (error: AxiosError) => {
+        if (error.config) {
+          this.recordRequest(connection, error.config, clientErrorFrom(error).type);
+        }
+        return Promise.reject(error);
+      });
+  }
+
+  private recordRequest(connection: EightSleepConnection, config: TimedConfig, outcome: string) {
+    const endpoint = endpointLabel(config.url);
+    const labels = { ...this.labelsForRequest(connection, config.url ?? ''), method: (config.method ?? 'get').toUpperCase(), endpoint };
+    this.requests.inc({ ...labels, outcome: outcome });
+    if (config.metricsStartedAt) {
+      this.requestDuration.observe(labels, (Date.now() - config.metricsStartedAt) / 1000);
+    }
+  }
+
+  // Requests for a user are labeled with their side, otherwise with the pod of the connection
+  private labelsForRequest(connection: EightSleepConnection, url: string): SideLabels {
+    const userId = url.match(/\/users\/([^/?]+)/)?.[1];
+    const userSide = userId ? this.userSides.get(userId) : undefined;
+    if (userSide) {
+      return userSide;
+    }
+    const deviceId = url.match(/\/devices\/([^/?]+)/)?.[1];
+    return { device_id: deviceId ?? this.connectionDeviceIds.get(connection) ?? '', side: ALL_SIDES };
+  }
+
+  private async collect() {
+    for (const gauge of [this.currentLevel, this.targetLevel, this.currentTemp, this.targetTemp, this.isOn, this.staleness,
+      this.hasWater, this.needsPriming, this.priming, this.sessionExpiry]) {
+      gauge.reset();
+    }
+
+    const devices = new Map<string, PlatformClientAdapter>();
+    for (const { deviceId, side, platformClient, accessoryClient } of this.sides) {
+      const labels = { device_id: deviceId, side: side };
+      devices.set(deviceId, platformClient);
+      this.staleness.set(labels, Math.max(platformClient.staleness, accessoryClient.staleness) / 1000);
+
+      if (platformClient.staleness !== Infinity) {
+        const currentLevel = await platformClient.loadMostRecentSettings(side);
+        this.currentLevel.set(labels, currentLevel);
+        this.currentTemp.set(labels, this.tempMapper.levelToCelsius(currentLevel));
+      }
+
+      const target = accessoryClient.staleness !== Infinity ? await accessoryClient.loadMostRecentTarget() : null;
+      if (target) {
+        this.targetLevel.set(labels, target.level);
+        this.targetTemp.set(labels, this.tempMapper.levelToCelsius(target.level));
+        this.isOn.set(labels, target.isOn ? 1 : 0);
+      }
+    }
+
+    for (const [deviceId, platformClient] of devices) {
+      const status = platformClient.staleness !== Infinity ? await platformClient.loadMostRecentDeviceStatus() : null;
+      if (status) {
+        const labels = { device_id: deviceId, side: ALL_SIDES };
+        this.hasWater.set(labels, status.hasWater ? 1 : 0);
+        this.needsPriming.set(labels, status.needsPriming ? 1 : 0);
+        this.priming.set(labels, status.priming ? 1 : 0);
+      }
+    }
+
+    for (const connection of this.connections) {
+      const [primaryUserDevice, session] = [await connection.primaryUserDevice, await connection.session];
+      if (!primaryUserDevice || !session) {
+        continue;
+      }
+      const labels = { device_id: primaryUserDevice.id, side: primaryUserDevice.side };
+      this.sessionExpiry.set(labels, Date.parse(session.expirationDate) / 1000);
+    }
+  }
+}
+
+// Metrics are only served if `metrics-port` is set in `config.json`
+export const podMetricsFrom = (config: PlatformConfig, tempMapper: TwoWayTempMapper, log: Logger) => {
+  const port = Number(config['metrics-port']);
+  if (!Number.isInteger(port) || port <= 0 || port > 65535) {
+    return null;
+  }
+  return new PodMetrics(port, config['metrics-host'] || DEFAULT_HOST, tempMapper, log);
+};
@@ -0,0 +1,299 @@
+import mqtt, { MqttClient } from 'mqtt';
+import { Logger, PlatformConfig } from 'homebridge';
+import { AccessoryClientAdapter, PlatformClientAdapter } from './clientAdapter';
+import { SideLimits } from './sideLimits';
+import { TwoWayTempMapper } from './twoWayTempMapper';
+
+const DEFAULT_BASE_TOPIC = 'eightsleep';
+const DEFAULT_DISCOVERY_PREFIX = 'homeassistant';
+
+const ONLINE = 'online';
+const OFFLINE = 'offline';
+
+// Modes published & accepted on the mode topic, the same as the thermostat modes
+export type MqttMode = 'off' | 'auto' | 'heat' | 'cool';
+
+type Command = 'temperature' | 'level' | 'mode';
+const commands: Command[] = ['temperature', 'level', 'mode'];
+
+/**
+ * Implemented by the accessory of each side, so commands go through the same
+ * checks as changes from HomeKit (child lock, away mode & limits). Each
+ * resolves `false` if the change was rejected, which the accessory logs.
+ */
+export interface SideController {
+  // Modes accepted on the mode topic, `level` accessories are only on/off
+  readonly modes: MqttMode[];
+  // Mode published while the side is on, i.e. the selected heat, cool or auto mode
+  modeWhileOn(): MqttMode;
+  setTargetTemperature(tempC: number): Promise<boolean>;
+  setTargetLevel(level: number): Promise<boolean>;
+  setMode(mode: MqttMode): Promise<boolean>;
+}
+
+// One side of a pod, registered by its accessory
+interface SideSource {
+  deviceId: string;
+  side: 'solo' | 'left' | 'right';
+  displayName: string;
+  limits: SideLimits;
+  platformClient: PlatformClientAdapter;
+  accessoryClient: AccessoryClientAdapter;
+  controller: SideController;
+}
+
+interface MqttOptions {
+  url: string;
+  username?: string;
+  password?: string;
+  baseTopic: string;
+  // Prefix of Home Assistant discovery topics, or `null` if disabled
+  discoveryPrefix: string | null;
+}
+
+/**
+ * Publishes the state of each side of the bed to an MQTT broker (set with
+ * `mqtt-url`) & accepts commands, for automations outside of HomeKit (e.g.
+ * Home Assistant or Node-RED). Topics are below `mqtt-topic` (`eightsleep`):
+ *
+ *  - `{topic}/status` -> `online`/`offline`
+ *  - `{topic}/{device id}/state` -> water tank & priming status of the pod
+ *  - `{topic}/{device id}/{side}/state` -> temps (°C), levels (-100 to +100),
+ *    mode (`off`/`auto`/`heat`/`cool`) & the status of the pod, published
+ *    (retained) each time the adapters refresh
+ *  - `{topic}/{device id}/{side}/{temperature|level|mode}/set` -> commands,
+ *    handled by the accessory of the side (see `SideController`)
+ *
+ * Home Assistant discovery payloads are published below `homeassistant/`
+ * unless `mqtt-discovery` is `false`.
+ */
+export class MqttBridge {
+  private client: MqttClient | null = null;
+  private readonly sides: SideSource[] = [];
+  // Commands are handled one at a time, so responses can't arrive out of order
+  private commandQueue: Promise<void> = Promise.resolve();
+
+  constructor(
+    private readonly options: MqttOptions,
+    private readonly tempMapper: TwoWayTempMapper,
+    private readonly log: Logger,
+  ) {}
+
+  private get statusTopic() {
+    return `${this.options.baseTopic}/status`;
+  }
+
+  private podTopic(deviceId: string) {
+    return `${this.options.baseTopic}/${deviceId}`;
+  }
+
+  private sideTopic(source: SideSource) {
+    return `${this.podTopic(source.deviceId)}/${source.side}`;
+  }
+
+  start() {
+    const { url, username, password } = this.options;
+    this.client = mqtt.connect(url, {
+      username: username,
+      password: password,
+      will: { topic: this.statusTopic, payload: OFFLINE, retain: true, qos: 1 },
+    });
+
+    this.client.on('connect', () => {
+      this.log.info('Connected to MQTT broker:', url);
+      this.publish(this.statusTopic, ONLINE);
+      this.client?.subscribe(`${this.options.baseTopic}/+/+/+/set`);
+      this.sides.forEach(source => {
+        this.publishDiscovery(source);
+        this.publishSideState(source);
+      });
+    });
+    this.client.on('message', (topic, payload) => {
+      this.commandQueue = this.commandQueue.then(() => this.handleCommand(topic, payload.toString().trim()));
+    });
+    this.client.on('error', error => this.log.error('MQTT error:', error.message));
+  }
+
+  stop() {
+    if (this.client?.connected) {
+      this.publish(this.statusTopic, OFFLINE);
+    }
+    this.client?.end();
+    this.client = null;
+  }
+
+  addSide(source: SideSource) {
+    this.sides.push(source);
+    source.accessoryClient.onRefresh(() => this.publishSideState(source));
+    // Device state is shared by both sides, so each side only publishes its own state
+    source.platformClient.onRefresh(() => this.publishSideState(source));
+
+    // Sides added after connecting (i.e. once discovered) are published straight away
+    if (this.client?.connected) {
+      this.publishDiscovery(source);
+      this.publishSideState(source);
+    }
+  }
+
+  private publish(topic: string, payload: string | object) {
+    const message = typeof payload === 'string' ? payload : JSON.stringify(payload);
+    this.client?.publish(topic, message, { retain: true, qos: 1 });
+  }
+
+  // Called from refresh listeners, a failure (e.g. after the broker disconnects) is published again with the next refresh
+  private publishSideState(source: SideSource) {
+    this.sendSideState(source)
+      .catch(error => this.log.debug(`Unable to publish state of ${source.displayName} to MQTT:`, error));
+  }
+
+  private async sendSideState(source: SideSource) {
+    if (!this.client?.connected) {
+      return;
+    }
+
+    const target = await source.accessoryClient.loadMostRecentTarget();
+    const status = await source.platformClient.loadMostRecentDeviceStatus();
+    const currentLevel = source.platformClient.staleness !== Infinity
+      ? await source.platformClient.loadMostRecentSettings(source.side)
+      : null;
+
+    if (status) {
+      this.publish(`${this.podTopic(source.deviceId)}/state`, status);
+    }
+    this.publish(`${this.sideTopic(source)}/state`, {
+      currentTemp: currentLevel !== null ? this.tempMapper.levelToCelsius(currentLevel) : null,
+      targetTemp: target ? this.tempMapper.levelToCelsius(target.level) : null,
+      currentLevel: currentLevel,
+      targetLevel: target?.level ?? null,
+      mode: target ? (target.isOn ? source.controller.modeWhileOn() : 'off') : null,
+      hasWater: status?.hasWater ?? null,
+      needsPriming: status?.needsPriming ?? null,
+      priming: status?.priming ?? null,
+    });
+  }
+
+  // `{topic}/{device id}/{side}/{command}/set`
+  private async handleCommand(topic: string, payload: string) {
+    const [deviceId, side, command] = topic.slice(this.options.baseTopic.length + 1).split('/');
+    const source = this.sides.find(source => source.deviceId === deviceId && source.side === side);
+    if (!source || !commands.includes(command as Command)) {
+      this.log.debug('Ignoring MQTT message for unknown topic:', topic);
+      return;
+    }
+
+    try {
+      if (await this.sendCommand(source, command as Command, payload)) {
+        this.log.info(`Set ${command} of ${source.displayName} to ${payload} from MQTT`);
+      }
+    } catch (error) {
+      this.log.error(`Failed to update ${command} of ${source.displayName} from MQTT:`, error);
+    }
+  }
+
+  private async sendCommand(source: SideSource, command: Command, payload: string) {
+    const { controller } = source;
+    if (command === 'mode') {
+      const mode = payload.toLowerCase() as MqttMode;
+      if (!controller.modes.includes(mode)) {
+        this.log.warn(`Rejected unknown mode '${payload}' for ${source.displayName} from MQTT, expected ${controller.modes.join('/')}`);
+        return false;
+      }
+      return controller.setMode(mode);
+    }
+
+    const value = Number(payload);
+    if (!payload || !Number.isFinite(value)) {
+      this.log.warn(`Rejected ${command} '${payload}' for ${source.displayName} from MQTT, expected a number`);
+      return false;
+    }
+    return command === 'temperature' ? controller.setTargetTemperature(value) : controller.setTargetLevel(Math.round(value));
+  }
+
+  /**
+   * Home Assistant discovery: a climate entity & a target level for each
+   * side, along with binary sensors for the water tank & priming of the pod
+   */
+  private publishDiscovery(source: SideSource) {
+    const prefix = this.options.discoveryPrefix;
+    if (!prefix) {
+      return;
+    }
+
+    const sideTopic = this.sideTopic(source);
+    const objectId = `eightsleep_${source.deviceId}_${source.side}`;
+    const common = {
+      availability_topic: this.statusTopic,
+      device: {
+        identifiers: [`eightsleep_${source.deviceId}`],
+        name: 'Eight Sleep Pod',
+        manufacturer: 'Eight Sleep',
+        model: 'Pod Pro',
+      },
+    };
+
+    this.publish(`${prefix}/climate/${objectId}/config`, {
+      ...common,
+      name: source.displayName,
+      unique_id: objectId,
+      modes: source.controller.modes,
+      mode_state_topic: `${sideTopic}/state`,
+      mode_state_template: '{{ value_json.mode }}',
+      mode_command_topic: `${sideTopic}/mode/set`,
+      current_temperature_topic: `${sideTopic}/state`,
+      current_temperature_template: '{{ value_json.currentTemp }}',
+      temperature_state_topic: `${sideTopic}/state`,
+      temperature_state_template: '{{ value_json.targetTemp }}',
+      temperature_command_topic: `${sideTopic}/temperature/set`,
+      temperature_unit: 'C',
+      temp_step: this.tempMapper.minStep,
+      min_temp: this.tempMapper.levelToCelsius(source.limits.minLevel),
+      max_temp: this.tempMapper.levelToCelsius(source.limits.maxLevel),
+    });
+
+    this.publish(`${prefix}/number/${objectId}_level/config`, {
+      ...common,
+      name: `${source.displayName} Level`,
+      unique_id: `${objectId}_level`,
+      state_topic: `${sideTopic}/state`,
+      value_template: '{{ value_json.targetLevel }}',
+      command_topic: `${sideTopic}/level/set`,
+      min: source.limits.minLevel,
+      max: source.limits.maxLevel,
+      step: 1,
+    });
+
+    const podTopic = `${this.podTopic(source.deviceId)}/state`;
+    const podId = `eightsleep_${source.deviceId}`;
+    this.publish(`${prefix}/binary_sensor/${podId}_water/config`, {
+      ...common,
+      name: 'Pod Water Tank',
+      unique_id: `${podId}_water`,
+      device_class: 'problem',
+      state_topic: podTopic,
+      value_template: '{{ "ON" if not value_json.hasWater or value_json.needsPriming else "OFF" }}',
+    });
+    this.publish(`${prefix}/binary_sensor/${podId}_priming/config`, {
+      ...common,
+      name: 'Pod Priming',
+      unique_id: `${podId}_priming`,
+      device_class: 'running',
+      state_topic: podTopic,
+      value_template: '{{ "ON" if value_json.priming else "OFF" }}',
+    });
+  }
+}
+
+// Bridge is only started if `mqtt-url` is set in `config.json`
+export const mqttBridgeFrom = (config: PlatformConfig, tempMapper: TwoWayTempMapper, log: Logger) => {
+  const url = config['mqtt-url'];
+  if (typeof url !== 'string' || !url) {
+    return null;
+  }
+  return new MqttBridge({
+    url: url,
+    username: config['mqtt-username'] || undefined,
+    password: config['mqtt-password'] || undefined,
+    baseTopic: config['mqtt-topic'] || DEFAULT_BASE_TOPIC,
+    discoveryPrefix: config['mqtt-discovery'] === false ? null : DEFAULT_DISCOVERY_PREFIX,
+  }, tempMapper, log);
+};
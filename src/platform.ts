@@ -10,11 +10,25 @@ import {
 
 import { PLATFORM_NAME, PLUGIN_NAME } from './settings';
 import { EightSleepThermostatAccessory } from './platformAccessory';
+import { EightSleepPodStatusAccessory } from './podStatusAccessory';
+import { EightSleepPrimeSwitchAccessory } from './primeSwitchAccessory';
+import { EightSleepAlarmAccessory } from './alarmAccessory';
 import { EightSleepConnection } from './eightSleepConnection';
-import { PlatformClientAdapter } from './clientAdapter';
+import { AlarmClientAdapter, PlatformClientAdapter } from './clientAdapter';
+import { createCustomCharacteristics } from './customCharacteristics';
+import { PollScheduler, pollIntervalsFrom } from './pollScheduler';
+import { AccessoryType, EightSleepAccount, accountsFrom, podAccessoryIsEnabled, sideIsEnabled, sideLimitsConfigFor } from './accounts';
+import { SideLimits, sideLimitsFrom } from './sideLimits';
+import { tempMapperFrom } from './twoWayTempMapper';
+import { podMetricsFrom } from './metrics';
+import { mqttBridgeFrom } from './mqttBridge';
 
 const pluginDisplayName = 'Eight Sleep Thermostat';
 
+// Accessories of the top-level account keep the UUIDs they had before
+// multiple accounts were supported, so they aren't re-added to HomeKit
+const accessoryUUIDPrefix = (account: EightSleepAccount) => account.key ? `${account.key}:` : '';
+
 interface EightSleepDeviceContext {
   accessoryUUID: string;
   sharedDeviceId: string;
@@ -22,15 +36,40 @@ interface EightSleepDeviceContext {
   isOwner: boolean;
   side: string;
   displayName: string;
+  // `thermostat` (default), `heater-cooler` or `level`, see `EightSleepThermostatAccessory`
+  accessoryType: AccessoryType;
+  // Range of levels that can be set from HomeKit & child lock, from `{side}-limits`
+  limits: SideLimits;
 }
 
+// Alarm accessory of a side of the bed, see `setupAlarmAccessory()`
+const alarmDeviceFor = (device: EightSleepDeviceContext) => ({
+  accessoryUUID: `${device.accessoryUUID}:ALARM`,
+  sharedDeviceId: device.sharedDeviceId,
+  pluginSerial: device.pluginSerial.concat(':Alarm'),
+  displayName: `${device.displayName} Alarm`,
+  side: device.side,
+});
+
 export class EightSleepThermostatPlatform implements DynamicPlatformPlugin {
   public readonly Service: typeof Service = this.api.hap.Service;
   public readonly Characteristic: typeof Characteristic = this.api.hap.Characteristic;
+  public readonly CustomCharacteristic = createCustomCharacteristics(this.api);
+  // Mapping between client API levels & temps, checked on startup
+  public readonly tempMapper = tempMapperFrom(this.config, this.log);
 
   // track restored cached accessories
   public readonly accessories: PlatformAccessory[] = [];
-  public connection?: EightSleepConnection;
+  // One connection for each Eight Sleep account, see `accountsFrom()`
+  public readonly connections: EightSleepConnection[] = [];
+
+  // Shared by all adapters & accessories to schedule refreshes of state
+  public readonly scheduler = new PollScheduler(this.log, pollIntervalsFrom(this.config));
+
+  // Prometheus metrics endpoint, only if `metrics-port` is set
+  public readonly metrics = podMetricsFrom(this.config, this.tempMapper, this.log);
+  // State & commands over MQTT, only if `mqtt-url` is set
+  public readonly mqtt = mqttBridgeFrom(this.config, this.tempMapper, this.log);
 
   constructor(
     public readonly log: Logger,
@@ -38,13 +77,21 @@ export class EightSleepThermostatPlatform implements DynamicPlatformPlugin {
     public readonly api: API,
   ) {
 
-    if (this.config['email'] && this.config['password']) {
-      this.connection = new EightSleepConnection(this, this.config['email'], this.config['password']);
+    const accounts = accountsFrom(this.config, this.log);
+    if (accounts.length > 0) {
+      this.connections = accounts.map(account => new EightSleepConnection(this, account));
       this.api.on('didFinishLaunching', () => {
+        this.startService('Prometheus metrics', this.metrics);
+        this.startService('MQTT bridge', this.mqtt);
         this.discoverDevices().catch ( (error) => {
           this.log.error('Something went wrong...', error);
         });
       });
+      this.api.on('shutdown', () => {
+        this.scheduler.shutdown();
+        this.metrics?.stop();
+        this.mqtt?.stop();
+      });
     } else {
       const configError = new Error(
         'You need to specify your Eight Sleep account credentials (email & password). Either manually update ' +
@@ -54,6 +101,15 @@ export class EightSleepThermostatPlatform implements DynamicPlatformPlugin {
     }
   }
 
+  // Optional services (metrics & MQTT) log any error, so a bad config doesn't stop the plugin from launching
+  private startService(name: string, service: { start: () => void } | null) {
+    try {
+      service?.start();
+    } catch (error) {
+      this.log.error(`Unable to start ${name}:`, error instanceof Error ? error.message : error);
+    }
+  }
+
   /**
    * REQUIRED - Homebridge will call "configureAccessory" method once for each restored cached accessory
    */
@@ -64,72 +120,109 @@ export class EightSleepThermostatPlatform implements DynamicPlatformPlugin {
   }
 
   async discoverDevices() {
-    const [primaryUserDevice, session] = [await this.connection?.primaryUserDevice, await this.connection?.session];
+    // Pods that have already been setup, in case 2 accounts share the same pod
+    const setupDeviceIds = new Set<string>();
 
-    if (!this.connection || !primaryUserDevice || !session) {
+    for (const connection of this.connections) {
+      try {
+        await this.discoverAccountDevices(connection, setupDeviceIds);
+      } catch (error) {
+        this.log.error(`Unable to setup accessories for account ${connection.account.label}:`, error);
+      }
+    }
+  }
+
+  private async discoverAccountDevices(connection: EightSleepConnection, setupDeviceIds: Set<string>) {
+    const [primaryUserDevice, session] = [await connection.primaryUserDevice, await connection.session];
+
+    if (!primaryUserDevice || !session) {
       throw new Error('Unexpected failure occured during plugin load.');
     }
 
-    const sharedPlatformClient = new PlatformClientAdapter(primaryUserDevice.id, this.log);
+    if (setupDeviceIds.has(primaryUserDevice.id)) {
+      this.log.warn(`Pod of account ${connection.account.label} has already been added by another account, skipping`);
+      return;
+    }
+    setupDeviceIds.add(primaryUserDevice.id);
+
+    const account = connection.account;
+    const sharedPlatformClient = new PlatformClientAdapter(primaryUserDevice.id, connection.client, this.log, this.scheduler);
+    const uuidPrefix = accessoryUUIDPrefix(account);
 
-    const soloBedName = this.config['solo-bed-name'];
-    const leftBedName = this.config['left-bed-name'];
-    const rightBedName = this.config['right-bed-name'];
+    const soloBedName = account.config['solo-bed-name'];
+    const leftBedName = account.config['left-bed-name'];
+    const rightBedName = account.config['right-bed-name'];
 
     let eightSleepDevices: EightSleepDeviceContext[];
 
     if (primaryUserDevice.side === 'solo') {
       eightSleepDevices = [
         {
-          accessoryUUID: `${primaryUserDevice.id}:SOLO`,
+          accessoryUUID: `${uuidPrefix}${primaryUserDevice.id}:SOLO`,
           sharedDeviceId: primaryUserDevice.id,
           pluginSerial: primaryUserDevice.id.substring(0, 12).concat(':Solo'),
           isOwner: true,
           side: 'solo',
           displayName: soloBedName ?? 'Pod Pro Solo',
+          accessoryType: account.config['solo-accessory-type'] ?? 'thermostat',
+          limits: this.sideLimitsFor(account, 'solo', soloBedName ?? 'Pod Pro Solo'),
         },
       ];
     } else {
       eightSleepDevices = [
         {
-          accessoryUUID: `${primaryUserDevice.id}:LEFT`,
+          accessoryUUID: `${uuidPrefix}${primaryUserDevice.id}:LEFT`,
           sharedDeviceId: primaryUserDevice.id,
           pluginSerial: primaryUserDevice.id.substring(0, 12).concat(':Left'),
           isOwner: primaryUserDevice.side === 'left' ? true : false,
           side: 'left',
           displayName: leftBedName ?? 'Pod Pro Left',
+          accessoryType: account.config['left-accessory-type'] ?? 'thermostat',
+          limits: this.sideLimitsFor(account, 'left', leftBedName ?? 'Pod Pro Left'),
         },
         {
-          accessoryUUID: `${primaryUserDevice.id}:RIGHT`,
+          accessoryUUID: `${uuidPrefix}${primaryUserDevice.id}:RIGHT`,
           sharedDeviceId: primaryUserDevice.id,
           pluginSerial: primaryUserDevice.id.substring(0, 12).concat(':Right'),
           isOwner: primaryUserDevice.side === 'right' ? true : false,
           side: 'right',
           displayName: rightBedName ?? 'Pod Pro Right',
+          accessoryType: account.config['right-accessory-type'] ?? 'thermostat',
+          limits: this.sideLimitsFor(account, 'right', rightBedName ?? 'Pod Pro Right'),
         },
       ];
     }
 
     for (const device of eightSleepDevices) {
+      // Disabled sides (`{side}-enabled`) are removed along with their alarm
+      if (!sideIsEnabled(account, device.side)) {
+        this.log.info(`Skipping ${device.side} side of account ${account.label}, disabled in config`);
+        this.restoreOrRemoveAccessory(device, false);
+        this.restoreOrRemoveAccessory(alarmDeviceFor(device), false);
+        continue;
+      }
+
       // TODO #1 -> refer to 'platform.ts' Craft document
       const uuid = this.api.hap.uuid.generate(device.accessoryUUID);
 
       // see if an accessory with the same uuid has already been registered and restored from
       // the cached devices we stored in the `configureAccessory` method above
       const existingAccessory = this.accessories.find(accessory => accessory.UUID === uuid);
-      const guestId = `guest-${device.sharedDeviceId}-${device.side}`;
+      const sideUser = device.isOwner
+        ? { userId: session.userId, connection: connection }
+        : await this.partnerSideUser(connection, device, sharedPlatformClient);
 
       if (existingAccessory) {
         this.log.info('Restoring existing accessory from cache:', existingAccessory.displayName);
 
         // if you need to update the accessory.context then you should run `api.updatePlatformAccessories`. eg.:
         existingAccessory.context.device = device;
-        existingAccessory.context.device.userId = device.isOwner ? session.userId : guestId;
+        existingAccessory.context.device.userId = sideUser.userId;
         this.api.updatePlatformAccessories([existingAccessory]);
 
         // create the accessory handler for the restored accessory
         // this is imported from `platformAccessory.ts`
-        new EightSleepThermostatAccessory(this, existingAccessory, sharedPlatformClient);
+        new EightSleepThermostatAccessory(this, existingAccessory, sharedPlatformClient, connection, sideUser.connection);
 
       } else {
         this.log.info('Adding new accessory:', device.displayName);
@@ -139,12 +232,143 @@ export class EightSleepThermostatPlatform implements DynamicPlatformPlugin {
         // store a copy of the device object in the `accessory.context`
         // the `context` property can be used to store any data about the accessory you may need
         accessory.context.device = device;
-        accessory.context.device.userId = device.isOwner ? session.userId : guestId;
+        accessory.context.device.userId = sideUser.userId;
 
-        new EightSleepThermostatAccessory(this, accessory, sharedPlatformClient);
+        new EightSleepThermostatAccessory(this, accessory, sharedPlatformClient, connection, sideUser.connection);
 
         this.api.registerPlatformAccessories(PLUGIN_NAME, PLATFORM_NAME, [accessory]);
       }
+
+      this.setupAlarmAccessory(account, device, sideUser);
+    }
+
+    this.setupPodAccessories(account, primaryUserDevice.id, session.userId, sharedPlatformClient);
+  }
+
+  private sideLimitsFor(account: EightSleepAccount, side: string, displayName: string) {
+    return sideLimitsFrom(sideLimitsConfigFor(account, side), this.tempMapper, displayName, this.log);
+  }
+
+  /**
+   * User of the side of the bed that isn't owned by the account's primary
+   * user, & the connection used for requests to their user endpoints. In
+   * order of preference:
+   *  1. Partner's own session, when `partner-email` & `partner-password` are set
+   *  2. Partner's user id from `leftUserId`/`rightUserId` of the device
+   *  3. Guest user id, which client API only accepts in limited cases
+   */
+  private async partnerSideUser(
+    connection: EightSleepConnection,
+    device: EightSleepDeviceContext,
+    platformClient: PlatformClientAdapter,
+  ) {
+    const partner = connection.partner;
+    if (partner) {
+      const [partnerDevice, partnerSession] = [await partner.primaryUserDevice, await partner.session];
+      if (partnerSession && partnerDevice?.id === device.sharedDeviceId && partnerDevice.side === device.side) {
+        return { userId: partnerSession.userId, connection: partner };
+      }
+      this.log.warn(`Partner of account ${connection.account.label} isn't using the ${device.side} side of this pod, ` +
+        'ignoring partner login');
     }
+
+    const discoveredUserId = await platformClient.getUserIdForSide(device.side);
+    if (discoveredUserId) {
+      this.log.debug(`Using user id of ${device.side} side from device:`, discoveredUserId);
+      return { userId: discoveredUserId, connection: connection };
+    }
+
+    this.log.debug(`Unable to find user of ${device.side} side, using guest user id`);
+    return { userId: `guest-${device.sharedDeviceId}-${device.side}`, connection: connection };
+  }
+
+  /**
+   * 'Pod Pro Left Alarm' etc. -> vibration alarm switches for the user of each
+   * side of the bed (`alarm-switches` of the account, disabled by default). Alarms belong to
+   * a user, so sides without a known user (i.e. guest ids) don't get one.
+   */
+  private setupAlarmAccessory(
+    account: EightSleepAccount,
+    device: EightSleepDeviceContext,
+    sideUser: { userId: string; connection: EightSleepConnection },
+  ) {
+    const alarmDevice = { ...alarmDeviceFor(device), userId: sideUser.userId };
+    const isEnabled = podAccessoryIsEnabled(account, this.config, 'alarm-switches') && !sideUser.userId.startsWith('guest-');
+    const alarmAccessory = this.restoreOrRemoveAccessory(alarmDevice, isEnabled);
+    if (alarmAccessory) {
+      const alarmClient = new AlarmClientAdapter(sideUser.userId, sideUser.connection.client, this.log, this.scheduler);
+      new EightSleepAlarmAccessory(this, alarmAccessory, alarmClient);
+    }
+  }
+
+  /**
+   * Accessories for the pod itself, rather than either side of the bed, each
+   * enabled by the account's setting (or the top-level setting if it has none):
+   *  - 'Pod Pro Status' -> water tank & priming sensors (`pod-status-sensors`, off by default)
+   *  - 'Prime Pod' -> switch to start priming (`prime-switch`, off by default)
+   */
+  private setupPodAccessories(
+    account: EightSleepAccount,
+    sharedDeviceId: string,
+    userId: string,
+    platformClient: PlatformClientAdapter,
+  ) {
+    const serialPrefix = sharedDeviceId.substring(0, 12);
+    const uuidPrefix = accessoryUUIDPrefix(account);
+
+    const statusDevice = {
+      accessoryUUID: `${uuidPrefix}${sharedDeviceId}:POD`,
+      sharedDeviceId: sharedDeviceId,
+      pluginSerial: serialPrefix.concat(':Pod'),
+      displayName: account.config['pod-status-name'] ?? 'Pod Pro Status',
+    };
+    const statusAccessory = this.restoreOrRemoveAccessory(statusDevice, podAccessoryIsEnabled(account, this.config, 'pod-status-sensors'));
+    if (statusAccessory) {
+      new EightSleepPodStatusAccessory(this, statusAccessory, platformClient);
+    }
+
+    const primeDevice = {
+      accessoryUUID: `${uuidPrefix}${sharedDeviceId}:PRIME`,
+      sharedDeviceId: sharedDeviceId,
+      pluginSerial: serialPrefix.concat(':Prime'),
+      displayName: account.config['prime-switch-name'] ?? 'Prime Pod',
+      userId: userId,
+    };
+    const primeAccessory = this.restoreOrRemoveAccessory(primeDevice, podAccessoryIsEnabled(account, this.config, 'prime-switch'));
+    if (primeAccessory) {
+      new EightSleepPrimeSwitchAccessory(this, primeAccessory, platformClient);
+    }
+  }
+
+  /**
+   * Restores the cached accessory (or creates a new one) for `device` when it
+   * is enabled in config. If disabled, any previously cached accessory is removed.
+   *
+   * @returns the accessory to setup, or null if accessory is disabled
+   */
+  private restoreOrRemoveAccessory(device: { accessoryUUID: string; displayName: string }, isEnabled: boolean) {
+    const uuid = this.api.hap.uuid.generate(device.accessoryUUID);
+    const existingAccessory = this.accessories.find(accessory => accessory.UUID === uuid);
+
+    if (!isEnabled) {
+      if (existingAccessory) {
+        this.log.info('Removing accessory from cache:', existingAccessory.displayName);
+        this.api.unregisterPlatformAccessories(PLUGIN_NAME, PLATFORM_NAME, [existingAccessory]);
+      }
+      return null;
+    }
+
+    if (existingAccessory) {
+      this.log.info('Restoring existing accessory from cache:', existingAccessory.displayName);
+      existingAccessory.context.device = device;
+      this.api.updatePlatformAccessories([existingAccessory]);
+      return existingAccessory;
+    }
+
+    this.log.info('Adding new accessory:', device.displayName);
+    const accessory = new this.api.platformAccessory(device.displayName, uuid);
+    accessory.context.device = device;
+    this.api.registerPlatformAccessories(PLUGIN_NAME, PLATFORM_NAME, [accessory]);
+    return accessory;
   }
 }
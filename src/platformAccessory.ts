@@ -1,34 +1,93 @@
-import { Service, PlatformAccessory, CharacteristicValue } from 'homebridge';
+import { Service, PlatformAccessory, CharacteristicValue, WithUUID } from 'homebridge';
 import { EightSleepThermostatPlatform } from './platform';
-import { tempMapper, TwoWayTempMapper } from './twoWayTempMapper';
-import { AccessoryClientAdapter, PlatformClientAdapter } from './clientAdapter';
+import {
+  AccessoryClientAdapter,
+  PlatformClientAdapter,
+  SleepSession,
+  SmartPhase,
+  SmartSchedule,
+  smartPhases,
+} from './clientAdapter';
+import { SleepSessionStore, sleepSessionsFileFor } from './sleepSessionStore';
+import { EVE_HISTORY_SERVICE_UUID, TemperatureHistoryRecorder } from './temperatureHistory';
+import { CustomCharacteristicType } from './customCharacteristics';
+import { EightSleepConnection } from './eightSleepConnection';
+import { AccessoryType } from './accounts';
+import { SideLimits, noLimits } from './sideLimits';
+import { MqttMode, SideController } from './mqttBridge';
+
+const PRESENCE_SUBTYPE = 'presence';
+const AWAY_SUBTYPE = 'away';
+
+// Eight Sleep app displays levels from -10 to +10, i.e. client API level / 10
+const APP_LEVEL_SCALE = 10;
+
+// Thresholds of the HeaterCooler service (°C), see `setupHeaterCoolerService()`
+interface Thresholds {
+  heating: number;
+  cooling: number;
+}
+type Threshold = keyof Thresholds;
+
+// Target level is only sent once it hasn't changed for this long, see `writeTargetLevel()`
+const TARGET_WRITE_DELAY = 500;
+
+interface PendingTargetWrite {
+  level: number;
+  timer: NodeJS.Timeout;
+}
 
 export class EightSleepThermostatAccessory {
   private service: Service;
+  private presenceService?: Service;
+  private awayService?: Service;
+  private isInBed = false;
+  // Target level set from HomeKit which hasn't been accepted by client API yet
+  private pendingTargetWrite: PendingTargetWrite | null = null;
+  // Target levels are sent one at a time, so responses can't arrive out of order
+  private targetWrites: Promise<void> = Promise.resolve();
+  private sleepSessionStore?: SleepSessionStore;
+  private temperatureHistory?: TemperatureHistoryRecorder;
+  private readonly accessoryType: AccessoryType = this.accessory.context.device.accessoryType ?? 'thermostat';
+  // Raw level as a fan instead of a thermostat, see `setupLevelService()`
+  private readonly levelMode = this.accessoryType === 'level';
+  // HeaterCooler instead of a thermostat, see `setupHeaterCoolerService()`
+  private readonly heaterCoolerMode = this.accessoryType === 'heater-cooler';
+  // Smart schedule characteristics are temps, so aren't added in level mode
+  private smartScheduleEnabled = this.platform.config['smart-schedule'] !== false && !this.levelMode;
+
+  // Client API only knows on/off, so the mode selected while on (i.e. HEAT,
+  // COOL or AUTO) is persisted in accessory context. Defaults to AUTO.
+  private targetMode: number = this.accessory.context.targetMode ?? this.platform.Characteristic.TargetHeatingCoolingState.AUTO;
+  // Last thresholds set from HomeKit, persisted in accessory context
+  private thresholds?: Thresholds = this.accessory.context.thresholds;
   private readonly log = this.platform.log;
 
+  // Shared mapping between levels & temps, see `temperature-mapping`
+  private readonly tempMapper = this.platform.tempMapper;
+
   // Minstep calculated based on temp mapping of °C & °F locally,
   // and to ensure precision when converting between degrees/levels
   // when updating and fetching from client API.
-  //
-  // Since minstep slightly greater than 0.5, max temp allowed needs
-  // to be greater than 45 (i.e. 45.1) to ensure we can set the temp
-  // to the max on accessory in Home app (displayed as 113°F & 45°C).
-  private minStep = 0.55556;
-  private minTempC = 10;
-  private maxTempC = 45.1;
+  private minStep = this.tempMapper.minStep;
+  private minTempC = this.tempMapper.minTempC;
+  private maxTempC = this.tempMapper.maxTempC;
+
+  // Range of levels that can be set from HomeKit & child lock, see `sideLimitsFrom()`.
+  // Target temps (& levels) only allow the range of the limits.
+  private readonly limits: SideLimits = this.accessory.context.device.limits ?? noLimits;
+  private targetMinTempC = this.tempMapper.levelToCelsius(this.limits.minLevel);
+  private targetMaxTempC = this.tempMapper.maxTempCFor(this.limits.maxLevel);
+  private minRotationSpeed = Math.ceil(this.limits.minLevel / APP_LEVEL_SCALE);
+  private maxRotationSpeed = Math.floor(this.limits.maxLevel / APP_LEVEL_SCALE);
   private temperatureDisplayUnits = 1;
 
-  private tempMapper: TwoWayTempMapper = tempMapper;
   private userIdForSide = this.accessory.context.device.userId as string;
   private deviceSide = this.accessory.context.device.side as 'solo' | 'left' | 'right';
 
   // Used to update device settings, specific to each accessory
   private accessoryClient: AccessoryClientAdapter;
-
-  // Time of last CurrentTemp `GET` request made by controller
-  private lastActive: number;
-  private refreshInterval?: ReturnType<typeof setInterval> | null;
+  private readonly scheduler = this.platform.scheduler;
 
   constructor(
     private readonly platform: EightSleepThermostatPlatform,
@@ -36,89 +95,509 @@ export class EightSleepThermostatAccessory {
     // PlatformClientAdapter used to fetch device info, shared between accessories
     // since the device info for both sides is returned from single call to API
     private readonly platformClient: PlatformClientAdapter,
+    // Connection of the Eight Sleep account this accessory belongs to
+    private readonly connection: EightSleepConnection,
+    // Used for requests to the user of this side. Differs from `connection`
+    // when the partner's side is controlled using the partner's own login
+    userConnection: EightSleepConnection = connection,
   ) {
     this.log.debug('Accessory Context:', this.accessory.context);
 
-    this.accessoryClient = new AccessoryClientAdapter(this.userIdForSide, this.log);
+    this.accessoryClient = new AccessoryClientAdapter(this.userIdForSide, userConnection.client, this.log, this.scheduler);
+    this.platform.metrics?.addSide({
+      deviceId: this.accessory.context.device.sharedDeviceId,
+      side: this.deviceSide,
+      platformClient: this.platformClient,
+      accessoryClient: this.accessoryClient,
+    });
+    this.platform.mqtt?.addSide({
+      deviceId: this.accessory.context.device.sharedDeviceId,
+      side: this.deviceSide,
+      displayName: this.accessory.context.device.displayName,
+      limits: this.limits,
+      platformClient: this.platformClient,
+      accessoryClient: this.accessoryClient,
+      controller: this.mqttController(),
+    });
 
     this.accessory.getService(this.platform.Service.AccessoryInformation)!
       .setCharacteristic(this.platform.Characteristic.Manufacturer, 'Eight Sleep')
       .setCharacteristic(this.platform.Characteristic.Model, 'Pod Pro')
       .setCharacteristic(this.platform.Characteristic.SerialNumber, this.accessory.context.device.pluginSerial);
 
-    this.service = this.accessory.getService(this.platform.Service.Thermostat) ||
+    this.service = this.setupService();
+
+    this.setupPresenceService();
+    this.setupAwayService();
+    this.setupSleepSessionData();
+    this.setupTemperatureHistory();
+    this.setupSmartSchedule();
+
+    // Publish updated info from adapters at the publish interval (while active)
+    // NOTE: this logic loads the last fetched values, it does not initiate
+    // a new fetch. Since each adapter schedules its own refresh, we just
+    // need to load from the previous values already retrieved
+    this.scheduler.schedule(`Publish ${this.deviceSide}`, this.scheduler.intervals.publish, this.publishLatestChanges, true);
+  }
+
+  private setupService() {
+    switch (this.accessoryType) {
+      case 'level':
+        return this.setupLevelService();
+      case 'heater-cooler':
+        return this.setupHeaterCoolerService();
+      default:
+        return this.setupThermostatService();
+    }
+  }
+
+  private setupThermostatService() {
+    this.removeOtherServices(this.platform.Service.Thermostat);
+    const service = this.accessory.getService(this.platform.Service.Thermostat) ||
       this.accessory.addService(this.platform.Service.Thermostat);
 
-    this.service.setCharacteristic(this.platform.Characteristic.Name, accessory.context.device.displayName);
+    service.setCharacteristic(this.platform.Characteristic.Name, this.accessory.context.device.displayName);
 
-    this.service.getCharacteristic(this.platform.Characteristic.CurrentHeatingCoolingState)
+    service.getCharacteristic(this.platform.Characteristic.CurrentHeatingCoolingState)
       .onGet(this.handleCurrentHeatingCoolingStateGet.bind(this))
       .setProps({ validValues: [
         this.platform.Characteristic.CurrentHeatingCoolingState.OFF,
         this.platform.Characteristic.CurrentHeatingCoolingState.HEAT,
         this.platform.Characteristic.CurrentHeatingCoolingState.COOL ]});
 
-    this.service.getCharacteristic(this.platform.Characteristic.TargetHeatingCoolingState)
+    service.getCharacteristic(this.platform.Characteristic.TargetHeatingCoolingState)
       .onSet(this.handleTargetHeatingCoolingStateSet.bind(this))
       .onGet(this.handleTargetHeatingCoolingStateGet.bind(this))
       .setProps({ validValues: [
         this.platform.Characteristic.TargetHeatingCoolingState.OFF,
+        this.platform.Characteristic.TargetHeatingCoolingState.HEAT,
+        this.platform.Characteristic.TargetHeatingCoolingState.COOL,
         this.platform.Characteristic.TargetHeatingCoolingState.AUTO ]});
 
-    this.service.getCharacteristic(this.platform.Characteristic.CurrentTemperature)
+    service.getCharacteristic(this.platform.Characteristic.CurrentTemperature)
       .onGet(this.handleCurrentTemperatureGet.bind(this))
       .setProps({ minStep: this.minStep, minValue: this.minTempC, maxValue: this.maxTempC });
 
-    this.service.getCharacteristic(this.platform.Characteristic.TargetTemperature)
+    service.getCharacteristic(this.platform.Characteristic.TargetTemperature)
       .onSet(this.handleTargetTemperatureSet.bind(this))
       .onGet(this.handleTargetTemperatureGet.bind(this))
-      .setProps({ minStep: this.minStep, minValue: this.minTempC, maxValue: this.maxTempC });
+      .setProps({ minStep: this.minStep, minValue: this.targetMinTempC, maxValue: this.targetMaxTempC });
 
-    this.service.getCharacteristic(this.platform.Characteristic.TemperatureDisplayUnits)
+    service.getCharacteristic(this.platform.Characteristic.TemperatureDisplayUnits)
       .onSet(this.handleTemperatureDisplayUnitsSet.bind(this))
       .onGet(this.handleTemperatureDisplayUnitsGet.bind(this));
+    return service;
+  }
+
+  /**
+   * `level` accessory type -> the raw -10/+10 level of the Eight Sleep app as
+   * a fan, without any temperature mapping. `Active` turns the side on/off &
+   * `RotationSpeed` is the signed target level (displayed best in 3rd party
+   * apps, as the Home app doesn't expect negative speeds). Selected per side
+   * with `left-accessory-type`, `right-accessory-type` or `solo-accessory-type`.
+   */
+  private setupLevelService() {
+    this.removeOtherServices(this.platform.Service.Fanv2);
+    const service = this.accessory.getService(this.platform.Service.Fanv2) ||
+      this.accessory.addService(this.platform.Service.Fanv2);
+
+    service.setCharacteristic(this.platform.Characteristic.Name, this.accessory.context.device.displayName);
 
-    this.lastActive = Date.now();
-    this.refreshInterval = this.startRefreshing();
+    service.getCharacteristic(this.platform.Characteristic.Active)
+      .onSet(this.handleActiveSet.bind(this))
+      .onGet(this.handleActiveGet.bind(this));
+
+    service.getCharacteristic(this.platform.Characteristic.RotationSpeed)
+      .onSet(this.handleRotationSpeedSet.bind(this))
+      .onGet(this.handleRotationSpeedGet.bind(this))
+      .setProps({ minStep: 1, minValue: this.minRotationSpeed, maxValue: this.maxRotationSpeed });
+
+    if (!service.testCharacteristic(this.platform.CustomCharacteristic.CurrentBedLevel)) {
+      service.addCharacteristic(this.platform.CustomCharacteristic.CurrentBedLevel);
+    }
+    service.getCharacteristic(this.platform.CustomCharacteristic.CurrentBedLevel)
+      .onGet(this.handleCurrentBedLevelGet.bind(this));
+
+    return service;
   }
 
-  private setPluginAsActive() {
-    this.lastActive = Date.now();
+  /**
+   * `heater-cooler` accessory type -> HeaterCooler service instead of a
+   * thermostat, with `Active` to turn the side on/off & separate heating and
+   * cooling thresholds. The pod only has a single target temp, which follows
+   * the threshold(s) of the selected mode:
+   *  - HEAT -> heating threshold
+   *  - COOL -> cooling threshold
+   *  - AUTO -> midpoint between the heating & cooling thresholds
+   */
+  private setupHeaterCoolerService() {
+    this.removeOtherServices(this.platform.Service.HeaterCooler);
+    const service = this.accessory.getService(this.platform.Service.HeaterCooler) ||
+      this.accessory.addService(this.platform.Service.HeaterCooler);
+
+    service.setCharacteristic(this.platform.Characteristic.Name, this.accessory.context.device.displayName);
+
+    service.getCharacteristic(this.platform.Characteristic.Active)
+      .onSet(this.handleActiveSet.bind(this))
+      .onGet(this.handleActiveGet.bind(this));
 
-    if (!this.refreshInterval) {
-      // Fetch new state & start refreshing every 5 seconds for next 2 minutes
-      this.refreshInterval = this.startRefreshing();
+    service.getCharacteristic(this.platform.Characteristic.CurrentHeaterCoolerState)
+      .onGet(this.handleCurrentHeaterCoolerStateGet.bind(this));
+
+    service.getCharacteristic(this.platform.Characteristic.TargetHeaterCoolerState)
+      .onSet(this.handleTargetHeaterCoolerStateSet.bind(this))
+      .onGet(this.handleTargetHeaterCoolerStateGet.bind(this));
+
+    service.getCharacteristic(this.platform.Characteristic.CurrentTemperature)
+      .onGet(this.handleCurrentTemperatureGet.bind(this))
+      .setProps({ minStep: this.minStep, minValue: this.minTempC, maxValue: this.maxTempC });
+
+    service.getCharacteristic(this.platform.Characteristic.HeatingThresholdTemperature)
+      .onSet(value => this.handleThresholdTemperatureSet('heating', value))
+      .onGet(() => this.handleThresholdTemperatureGet('heating'))
+      .setProps({ minStep: this.minStep, minValue: this.targetMinTempC, maxValue: this.targetMaxTempC });
+
+    service.getCharacteristic(this.platform.Characteristic.CoolingThresholdTemperature)
+      .onSet(value => this.handleThresholdTemperatureSet('cooling', value))
+      .onGet(() => this.handleThresholdTemperatureGet('cooling'))
+      .setProps({ minStep: this.minStep, minValue: this.targetMinTempC, maxValue: this.targetMaxTempC });
+
+    return service;
+  }
+
+  // Cached accessories keep their services, so remove the services of the
+  // other accessory types after switching between `thermostat`, `heater-cooler` & `level`
+  private removeOtherServices(serviceType: WithUUID<typeof Service>) {
+    const serviceTypes = [this.platform.Service.Thermostat, this.platform.Service.HeaterCooler, this.platform.Service.Fanv2];
+
+    for (const otherType of serviceTypes.filter(type => type.UUID !== serviceType.UUID)) {
+      const existingService = this.accessory.getService(otherType);
+      if (existingService) {
+        this.accessory.removeService(existingService);
+      }
     }
   }
 
-  private startRefreshing() {
-    // Fetch updated info from adapters every 5 seconds (while active)
-    // NOTE: this logic loads the last fetched values, it does not initiate
-    // a new fetch. Since each adapter sets its own fetch interval, we just
-    // need to load from the previous values already retrieved
-    return setInterval(this.refreshState, 1000 * 5);
+  /**
+   * Bed presence for this side is added as an OccupancySensor linked to the
+   * thermostat service. Enabled by default, set `bed-presence-sensors` to
+   * `false` in config to remove the service from the accessory.
+   */
+  private setupPresenceService() {
+    const existingService = this.accessory.getServiceById(this.platform.Service.OccupancySensor, PRESENCE_SUBTYPE);
+
+    if (this.platform.config['bed-presence-sensors'] === false) {
+      if (existingService) {
+        this.accessory.removeService(existingService);
+      }
+      return;
+    }
+
+    const presenceName = `${this.accessory.context.device.displayName} Presence`;
+    this.presenceService = existingService ||
+      this.accessory.addService(this.platform.Service.OccupancySensor, presenceName, PRESENCE_SUBTYPE);
+    this.presenceService.setCharacteristic(this.platform.Characteristic.Name, presenceName);
+    this.service.addLinkedService(this.presenceService);
+
+    this.presenceService.getCharacteristic(this.platform.Characteristic.OccupancyDetected)
+      .onGet(this.handleOccupancyDetectedGet.bind(this));
+
+    this.refreshPresence();
+    this.scheduler.schedule(`Presence ${this.deviceSide}`, this.scheduler.intervals.presence, this.refreshPresence);
   }
 
-  private refreshState = () => {
-    this.publishLatestChanges();
-    this.clearRefreshIfNotActive();
+  // Presence is checked every minute, even without controller activity,
+  // so that automations can be triggered when getting into/out of bed
+  private refreshPresence = async () => {
+    this.accessoryClient.refreshSleepIntervals();
+    const inBed = await this.accessoryClient.getBedPresence();
+    if (inBed === null || !this.presenceService) {
+      return;
+    }
+
+    if (inBed !== this.isInBed) {
+      this.log.debug(`Bed presence changed -> ${inBed ? 'in bed' : 'out of bed'} for device:`, this.deviceSide);
+    }
+    this.isInBed = inBed;
+    this.presenceService.updateCharacteristic(this.platform.Characteristic.OccupancyDetected, this.occupancyValue());
   };
 
-  private clearRefreshIfNotActive() {
-    if (this.refreshInterval && this.lastActive < Date.now() - 1000 * 60 * 2) {
-      // Go into standby until next time there is controller activity
-      global.clearInterval(this.refreshInterval);
-      this.refreshInterval = null;
+  /**
+   * Away mode for the user of this side is added as a Switch linked to the
+   * thermostat service (`away-switches`, disabled by default). While away,
+   * the side reports OFF & changes to its target are rejected. Sides without
+   * a known user (i.e. guest ids) can't use away mode.
+   */
+  private setupAwayService() {
+    const existingService = this.accessory.getServiceById(this.platform.Service.Switch, AWAY_SUBTYPE);
+
+    if (this.platform.config['away-switches'] !== true || this.userIdForSide.startsWith('guest-')) {
+      if (existingService) {
+        this.accessory.removeService(existingService);
+      }
+      return;
+    }
+
+    const awayName = `${this.accessory.context.device.displayName} Away`;
+    this.awayService = existingService ||
+      this.accessory.addService(this.platform.Service.Switch, awayName, AWAY_SUBTYPE);
+    this.awayService.setCharacteristic(this.platform.Characteristic.Name, awayName);
+    this.service.addLinkedService(this.awayService);
+
+    this.awayService.getCharacteristic(this.platform.Characteristic.On)
+      .onSet(this.handleAwaySet.bind(this))
+      .onGet(this.handleAwayGet.bind(this));
+  }
+
+  // Pod ignores changes to the side while away, so reject them instead of
+  // letting HomeKit display a target that won't be applied
+  private async rejectWhileAway() {
+    if (await this.accessoryClient.getIsAway()) {
+      this.log.info(`${this.accessory.context.device.displayName} is in away mode, ignoring change`);
+      throw new this.platform.api.hap.HapStatusError(this.platform.api.hap.HAPStatus.NOT_ALLOWED_IN_CURRENT_STATE);
     }
   }
 
+  /**
+   * Last known state is used while client API can't be reached, until it's
+   * older than `stale-data-limit`. HomeKit then shows "No Response" instead.
+   */
+  private throwIfStale(...clients: { staleness: number }[]) {
+    if (this.isStale(...clients)) {
+      throw new this.platform.api.hap.HapStatusError(this.platform.api.hap.HAPStatus.SERVICE_COMMUNICATION_FAILURE);
+    }
+  }
+
+  private isStale(...clients: { staleness: number }[]) {
+    return clients.some(client => client.staleness > this.scheduler.intervals.staleDataLimit);
+  }
+
+  // Side is locked with `locked` in its limits, i.e. HomeKit can only view its state
+  private rejectWhileLocked(change: string) {
+    if (this.limits.locked) {
+      this.log.warn(`${this.accessory.context.device.displayName} is locked, rejected ${change}`);
+      throw new this.platform.api.hap.HapStatusError(this.platform.api.hap.HAPStatus.NOT_ALLOWED_IN_CURRENT_STATE);
+    }
+  }
+
+  private rejectOutsideLimits(level: number, change: string) {
+    const { minLevel, maxLevel } = this.limits;
+    if (level < minLevel || level > maxLevel) {
+      const range = `${this.tempMapper.levelToCelsius(minLevel)}°C - ${this.tempMapper.levelToCelsius(maxLevel)}°C, ` +
+        `level ${minLevel / APP_LEVEL_SCALE} to ${maxLevel / APP_LEVEL_SCALE}`;
+      this.log.warn(`Rejected ${change} for ${this.accessory.context.device.displayName}, outside of its limits (${range})`);
+      throw new this.platform.api.hap.HapStatusError(this.platform.api.hap.HAPStatus.INVALID_VALUE_IN_REQUEST);
+    }
+  }
+
+  // Targets set outside of the limits elsewhere (e.g. in the Eight Sleep app)
+  // are shown at the nearest limit, since HomeKit only allows values in range
+  private levelWithinLimits(level: number) {
+    return Math.min(Math.max(level, this.limits.minLevel), this.limits.maxLevel);
+  }
+
+  private rotationSpeedFor(level: number) {
+    return Math.min(Math.max(Math.round(level / APP_LEVEL_SCALE), this.minRotationSpeed), this.maxRotationSpeed);
+  }
+
+  /**
+   * Last night's sleep score, heart rate, HRV & respiratory rate are added as
+   * custom characteristics on the thermostat service. Each completed session
+   * is stored in the plugin's storage directory & a summary is logged once it
+   * becomes available (i.e. in the morning). Set `sleep-data` to `false` in
+   * config to disable.
+   */
+  private setupSleepSessionData() {
+    const sleepCharacteristics = [
+      this.platform.CustomCharacteristic.SleepScore,
+      this.platform.CustomCharacteristic.AverageHeartRate,
+      this.platform.CustomCharacteristic.HeartRateVariability,
+      this.platform.CustomCharacteristic.RespiratoryRate,
+    ];
+
+    if (this.platform.config['sleep-data'] === false) {
+      for (const characteristic of sleepCharacteristics) {
+        if (this.service.testCharacteristic(characteristic)) {
+          this.service.removeCharacteristic(this.service.getCharacteristic(characteristic));
+        }
+      }
+      return;
+    }
+
+    for (const characteristic of sleepCharacteristics) {
+      if (!this.service.testCharacteristic(characteristic)) {
+        this.service.addCharacteristic(characteristic);
+      }
+    }
+
+    const storePath = this.connection.cachePath(sleepSessionsFileFor(this.deviceSide));
+    this.sleepSessionStore = new SleepSessionStore(storePath, this.deviceSide, this.log);
+    this.refreshSleepSession();
+    this.scheduler.schedule(`Sleep session ${this.deviceSide}`, this.scheduler.intervals.sleepSession, this.refreshSleepSession);
+  }
+
+  private refreshSleepSession = async () => {
+    if (!this.sleepSessionStore) {
+      return;
+    }
+
+    this.accessoryClient.refreshSleepIntervals();
+    const lastSession = await this.accessoryClient.getLastSleepSession();
+
+    if (lastSession && await this.sleepSessionStore.record(lastSession)) {
+      this.logSleepSummary(lastSession);
+    }
+
+    const session = lastSession ?? await this.sleepSessionStore.latest();
+    if (session) {
+      this.publishSleepSession(session);
+    }
+  };
+
+  private publishSleepSession(session: SleepSession) {
+    const values: [CustomCharacteristicType, number | null][] = [
+      [this.platform.CustomCharacteristic.SleepScore, session.score],
+      [this.platform.CustomCharacteristic.AverageHeartRate, session.heartRate],
+      [this.platform.CustomCharacteristic.HeartRateVariability, session.hrv],
+      [this.platform.CustomCharacteristic.RespiratoryRate, session.respiratoryRate],
+    ];
+
+    for (const [characteristic, value] of values) {
+      if (value !== null) {
+        this.service.updateCharacteristic(characteristic, value);
+      }
+    }
+  }
+
+  private logSleepSummary(session: SleepSession) {
+    const format = (value: number | null, unit: string) => value !== null ? `${value}${unit}` : 'n/a';
+    this.log.info(`Sleep summary for ${this.accessory.context.device.displayName} (${session.date}) ->`,
+      `score: ${format(session.score, '')},`,
+      `heart rate: ${format(session.heartRate, ' bpm')},`,
+      `HRV: ${format(session.hrv, ' ms')},`,
+      `respiratory rate: ${format(session.respiratoryRate, ' br/min')}`);
+  }
+
+  /**
+   * Current & target temps along with on/off are sampled in the background
+   * & stored in the plugin's storage directory, see `TemperatureHistoryRecorder`.
+   * Also adds the Eve history service, so the Eve app draws graphs of the
+   * samples. Set `temperature-history` to `true` in config to enable.
+   */
+  private setupTemperatureHistory() {
+    if (this.platform.config['temperature-history'] !== true) {
+      const historyService = this.accessory.services.find(service => service.UUID === EVE_HISTORY_SERVICE_UUID);
+      if (historyService) {
+        this.accessory.removeService(historyService);
+      }
+      return;
+    }
+
+    this.temperatureHistory = new TemperatureHistoryRecorder(
+      this.platform, this.accessory, this.connection, this.deviceSide, this.platformClient, this.accessoryClient);
+  }
+
+  /**
+   * Smart schedule phase levels (bedtime, initial & final) are added as
+   * custom temperature characteristics on the thermostat service, along with
+   * the currently active phase. Set `smart-schedule` to `false` to disable.
+   */
+  private setupSmartSchedule() {
+    const scheduleCharacteristics = [this.platform.CustomCharacteristic.SmartPhase, ...smartPhases.map(this.characteristicForPhase)];
+
+    if (!this.smartScheduleEnabled) {
+      for (const characteristic of scheduleCharacteristics) {
+        if (this.service.testCharacteristic(characteristic)) {
+          this.service.removeCharacteristic(this.service.getCharacteristic(characteristic));
+        }
+      }
+      return;
+    }
+
+    for (const characteristic of scheduleCharacteristics) {
+      if (!this.service.testCharacteristic(characteristic)) {
+        this.service.addCharacteristic(characteristic);
+      }
+    }
+
+    this.service.getCharacteristic(this.platform.CustomCharacteristic.SmartPhase)
+      .onGet(this.handleSmartPhaseGet.bind(this));
+
+    for (const phase of smartPhases) {
+      this.service.getCharacteristic(this.characteristicForPhase(phase))
+        .onSet(value => this.handleSmartPhaseTemperatureSet(phase, value))
+        .onGet(() => this.handleSmartPhaseTemperatureGet(phase))
+        .setProps({ minStep: this.minStep, minValue: this.targetMinTempC, maxValue: this.targetMaxTempC });
+    }
+  }
+
+  private characteristicForPhase = (phase: SmartPhase) => {
+    switch (phase) {
+      case 'bedtime':
+        return this.platform.CustomCharacteristic.BedtimeTemperature;
+      case 'initial':
+        return this.platform.CustomCharacteristic.InitialSleepTemperature;
+      case 'final':
+        return this.platform.CustomCharacteristic.FinalSleepTemperature;
+    }
+  };
+
+  private levelForPhase(schedule: SmartSchedule, phase: SmartPhase) {
+    switch (phase) {
+      case 'bedtime':
+        return schedule.levels.bedTimeLevel;
+      case 'initial':
+        return schedule.levels.initialSleepLevel;
+      case 'final':
+        return schedule.levels.finalSleepLevel;
+    }
+  }
+
+  private publishSmartSchedule(schedule: SmartSchedule | null) {
+    if (!this.smartScheduleEnabled || !schedule) {
+      return;
+    }
+    this.service.updateCharacteristic(this.platform.CustomCharacteristic.SmartPhase, schedule.phase ?? 'off');
+    for (const phase of smartPhases) {
+      const phaseTemp = this.tempMapper.levelToCelsius(this.levelWithinLimits(this.levelForPhase(schedule, phase)));
+      this.service.updateCharacteristic(this.characteristicForPhase(phase), phaseTemp);
+    }
+  }
+
+  private occupancyValue() {
+    return this.isInBed
+      ? this.platform.Characteristic.OccupancyDetected.OCCUPANCY_DETECTED
+      : this.platform.Characteristic.OccupancyDetected.OCCUPANCY_NOT_DETECTED;
+  }
+
+  // Resumes refreshing & publishing (if in standby) until there's been
+  // no controller activity for the scheduler's active timeout
+  private setPluginAsActive() {
+    this.scheduler.markActive();
+  }
+
   // Updates values every 5 seconds using the latest data that was
   // downloaded by platform & accessory client adapters. These updates
   // are published without directly initiating new requests to client
   // API, thus limiting unnecessary network requests.
   private publishLatestChanges = async () => {
-    const [targetState, targetLevel] = await this.accessoryClient.loadMostRecentSettings();
-    const targetTemp = this.tempMapper.levelToCelsius(targetLevel);
+    if (this.isStale(this.accessoryClient, this.platformClient)) {
+      return this.publishNoResponse();
+    }
+
+    if (this.awayService) {
+      this.awayService.updateCharacteristic(this.platform.Characteristic.On, await this.accessoryClient.loadMostRecentIsAway());
+    }
+
+    if (this.levelMode) {
+      return this.publishLevelChanges();
+    } else if (this.heaterCoolerMode) {
+      return this.publishHeaterCoolerChanges();
+    }
+
+    const [onOffState, targetLevel] = await this.loadMostRecentSettings();
+    const targetState = onOffState === 0 ? onOffState : this.targetMode;
+    const targetTemp = this.tempMapper.levelToCelsius(this.levelWithinLimits(targetLevel));
     this.service.updateCharacteristic(this.platform.Characteristic.TargetHeatingCoolingState, targetState);
     this.service.updateCharacteristic(this.platform.Characteristic.TargetTemperature, targetTemp);
 
@@ -128,8 +607,55 @@ export class EightSleepThermostatAccessory {
 
     const currentState = this.characteristicValueForCurrentState(currentTemp, targetTemp, targetState);
     this.service.updateCharacteristic(this.platform.Characteristic.CurrentHeatingCoolingState, currentState);
+
+    this.publishSmartSchedule(await this.accessoryClient.loadMostRecentSmartSchedule());
   };
 
+  // Latest on/off state & target level, including a target level that hasn't been sent yet
+  private async loadMostRecentSettings() {
+    const [onOffState, targetLevel] = await this.accessoryClient.loadMostRecentSettings();
+    return [onOffState, this.pendingTargetWrite?.level ?? targetLevel];
+  }
+
+  // Characteristics read from the client API show "No Response" until it can be reached again
+  private publishNoResponse() {
+    const noResponse = new this.platform.api.hap.HapStatusError(this.platform.api.hap.HAPStatus.SERVICE_COMMUNICATION_FAILURE);
+    const characteristic = this.levelMode ? this.platform.Characteristic.RotationSpeed : this.platform.Characteristic.CurrentTemperature;
+    this.service.getCharacteristic(characteristic).updateValue(noResponse);
+  }
+
+  private async publishLevelChanges() {
+    const [onOffState, targetLevel] = await this.loadMostRecentSettings();
+    this.service.updateCharacteristic(this.platform.Characteristic.Active, this.activeValue(onOffState !== 0));
+    this.service.updateCharacteristic(this.platform.Characteristic.RotationSpeed, this.rotationSpeedFor(targetLevel));
+
+    const currentLevel = await this.platformClient.loadMostRecentSettings(this.deviceSide);
+    this.service.updateCharacteristic(this.platform.CustomCharacteristic.CurrentBedLevel, currentLevel / APP_LEVEL_SCALE);
+  }
+
+  private async publishHeaterCoolerChanges() {
+    const [onOffState, targetLevel] = await this.loadMostRecentSettings();
+    const targetState = onOffState === 0 ? onOffState : this.targetMode;
+    const targetTemp = this.tempMapper.levelToCelsius(this.levelWithinLimits(targetLevel));
+    this.service.updateCharacteristic(this.platform.Characteristic.Active, this.activeValue(onOffState !== 0));
+    this.service.updateCharacteristic(this.platform.Characteristic.TargetHeaterCoolerState, this.heaterCoolerTargetValue());
+    this.publishThresholds(targetLevel);
+
+    const currentLevel = await this.platformClient.loadMostRecentSettings(this.deviceSide);
+    const currentTemp = this.tempMapper.levelToCelsius(currentLevel);
+    this.service.updateCharacteristic(this.platform.Characteristic.CurrentTemperature, currentTemp);
+
+    const currentState = this.characteristicValueForCurrentState(currentTemp, targetTemp, targetState);
+    this.service.updateCharacteristic(this.platform.Characteristic.CurrentHeaterCoolerState,
+      this.heaterCoolerValueForCurrentState(currentState, targetState));
+
+    this.publishSmartSchedule(await this.accessoryClient.loadMostRecentSmartSchedule());
+  }
+
+  private activeValue(isOn: boolean) {
+    return isOn ? this.platform.Characteristic.Active.ACTIVE : this.platform.Characteristic.Active.INACTIVE;
+  }
+
   /**
    * Gets the *measured* current temperature of each side of bed from
    * client API. This metric is returned from client for both sides
@@ -145,13 +671,18 @@ export class EightSleepThermostatAccessory {
 
   private async fetchTargetState() {
     const accessoryIsOn = await this.accessoryClient.getAccessoryIsOn();
-    const targetState = accessoryIsOn ? 3 : 0;
+    const targetState = accessoryIsOn ? this.targetMode : this.platform.Characteristic.TargetHeatingCoolingState.OFF;
     return targetState;
   }
 
-  private async fetchTargetTemp() {
+  private async fetchTargetLevel() {
     const targetLevel = await this.accessoryClient.getUserTargetLevel();
-    const targetC = this.tempMapper.levelToCelsius(targetLevel);
+    return this.pendingTargetWrite?.level ?? targetLevel;
+  }
+
+  private async fetchTargetTemp() {
+    const targetLevel = await this.fetchTargetLevel();
+    const targetC = this.tempMapper.levelToCelsius(this.levelWithinLimits(targetLevel));
     return targetC;
   }
 
@@ -178,33 +709,335 @@ export class EightSleepThermostatAccessory {
     }
   }
 
+  // Thermostat OFF is split into INACTIVE (side is off) & IDLE (at target temp)
+  private heaterCoolerValueForCurrentState(currentState: number, targetState: number) {
+    if (targetState === this.platform.Characteristic.TargetHeatingCoolingState.OFF) {
+      return this.platform.Characteristic.CurrentHeaterCoolerState.INACTIVE;
+    }
+
+    switch (currentState) {
+      case this.platform.Characteristic.CurrentHeatingCoolingState.HEAT:
+        return this.platform.Characteristic.CurrentHeaterCoolerState.HEATING;
+      case this.platform.Characteristic.CurrentHeatingCoolingState.COOL:
+        return this.platform.Characteristic.CurrentHeaterCoolerState.COOLING;
+      default:
+        return this.platform.Characteristic.CurrentHeaterCoolerState.IDLE;
+    }
+  }
+
+  private async fetchCurrentHeaterCoolerState() {
+    const currentState = await this.fetchCurrentState();
+    return this.heaterCoolerValueForCurrentState(currentState, await this.fetchTargetState());
+  }
+
   private async updateCurrentHCState() {
+    if (this.heaterCoolerMode) {
+      const currState = await this.fetchCurrentHeaterCoolerState();
+      this.service.updateCharacteristic(this.platform.Characteristic.CurrentHeaterCoolerState, currState);
+      return;
+    }
     const currState = await this.fetchCurrentState();
     this.service.updateCharacteristic(this.platform.Characteristic.CurrentHeatingCoolingState, currState);
   }
 
   private async updateTargetTemperature(tempC: number) {
-    const targetLevel = this.tempMapper.celsiusToLevel(tempC);
+    const requestedLevel = this.tempMapper.celsiusToLevel(tempC);
+
+    if (requestedLevel === undefined || requestedLevel > 100 || requestedLevel < -100) {
+      this.log.error('Something went wrong calculating new bed temp:', requestedLevel);
+      return;
+    }
 
-    if (!targetLevel || targetLevel > 100 || targetLevel < -100) {
-      this.log.error('Something went wrong calculating new bed temp:', targetLevel);
+    const targetLevel = this.clampLevelToMode(requestedLevel);
+    const targetC = this.tempMapper.levelToCelsius(targetLevel);
+    this.rejectOutsideLimits(targetLevel, `target temp ${tempC}°C`);
+
+    if (targetLevel !== requestedLevel) {
+      this.log.info(`Target temp ${tempC}°C is outside the range of the current mode, using ${targetC}°C instead`);
+      // Characteristic value is set after this handler returns, so
+      // delay publishing the clamped temp until after it's been set
+      setTimeout(() => this.publishTargetLevel(targetLevel), 1000);
+    }
+
+    this.writeTargetLevel(targetLevel);
+  }
+
+  /**
+   * Dragging a slider in the Home app sets the target many times, so the level
+   * is only sent once it stops changing. HomeKit shows the new level straight
+   * away, & is rolled back to the level of client API if the request fails or
+   * the level in the response doesn't match.
+   */
+  private writeTargetLevel(level: number) {
+    if (this.pendingTargetWrite) {
+      clearTimeout(this.pendingTargetWrite.timer);
+    }
+    const write: PendingTargetWrite = {
+      level: level,
+      timer: setTimeout(() => {
+        // Each write is caught, so the chain always resolves & later writes are still sent
+        this.targetWrites = this.targetWrites
+          .then(() => this.sendTargetLevel(write))
+          .catch(error => this.rollBackTargetLevel(write, error));
+      }, TARGET_WRITE_DELAY),
+    };
+    this.pendingTargetWrite = write;
+  }
+
+  private async sendTargetLevel(write: PendingTargetWrite) {
+    const receivedLevel = await this.accessoryClient.updateUserTargetLevel(write.level);
+    // Level was changed again while waiting for the response, the newer level is sent next
+    if (this.pendingTargetWrite !== write) {
+      return;
+    }
+    this.pendingTargetWrite = null;
+
+    const targetC = this.tempMapper.levelToCelsius(write.level);
+    if (receivedLevel === null) {
+      this.log.error(`Failed to update target temp of ${this.accessory.context.device.displayName} to ${targetC}°C, rolling back`);
+    }
+    if (receivedLevel === null || !this.verifyInSyncTemps(targetC, write.level, receivedLevel)) {
+      this.publishTargetLevel(await this.accessoryClient.getUserTargetLevel());
+    }
+    await this.updateCurrentHCState();
+  }
+
+  // Unexpected error while sending `write`, HomeKit is rolled back unless a newer level is waiting to be sent
+  private async rollBackTargetLevel(write: PendingTargetWrite, error: unknown) {
+    const targetC = this.tempMapper.levelToCelsius(write.level);
+    this.log.error(`Error updating target temp of ${this.accessory.context.device.displayName} to ${targetC}°C:`, error);
+    if (this.pendingTargetWrite && this.pendingTargetWrite !== write) {
       return;
     }
+    this.pendingTargetWrite = null;
 
-    const receivedLevel = await this.accessoryClient.updateUserTargetLevel(targetLevel);
-    this.verifyInSyncTemps(tempC, targetLevel, receivedLevel);
-    this.updateCurrentHCState();
+    try {
+      this.publishTargetLevel(await this.accessoryClient.getUserTargetLevel());
+    } catch (rollBackError) {
+      this.log.error('Unable to roll back target temp:', rollBackError);
+    }
+  }
+
+  private clampLevelToMode(level: number) {
+    switch (this.targetMode) {
+      case this.platform.Characteristic.TargetHeatingCoolingState.COOL:
+        return this.tempMapper.clampToCooling(level);
+      case this.platform.Characteristic.TargetHeatingCoolingState.HEAT:
+        return this.tempMapper.clampToHeating(level);
+      default:
+        return level;
+    }
   }
 
+  private async updateSmartPhaseTemperature(phase: SmartPhase, tempC: number) {
+    const phaseLevel = this.tempMapper.celsiusToLevel(tempC);
+
+    if (phaseLevel === undefined || phaseLevel > 100 || phaseLevel < -100) {
+      this.log.error(`Something went wrong calculating new smart ${phase} level:`, phaseLevel);
+      return;
+    }
+    this.rejectOutsideLimits(phaseLevel, `smart ${phase} temp ${tempC}°C`);
+
+    const receivedLevel = await this.accessoryClient.updateSmartLevel(phase, phaseLevel);
+    if (receivedLevel === null) {
+      // Restore the levels the pod still has, so HomeKit doesn't keep the rejected one
+      this.log.error(`Failed to update smart ${phase} temperature`);
+      this.publishSmartSchedule(await this.accessoryClient.loadMostRecentSmartSchedule());
+      throw new this.platform.api.hap.HapStatusError(this.platform.api.hap.HAPStatus.SERVICE_COMMUNICATION_FAILURE);
+    }
+    this.verifyInSyncTemps(tempC, phaseLevel, receivedLevel);
+
+    // If updating the active phase, target temp will have changed too
+    this.publishLatestChanges();
+  }
+
+  /**
+   * The selected mode is only persisted (& the target moved into its range)
+   * once the side has been turned on. If the request fails, HomeKit is rolled
+   * back to the state of client API, like a failed target temp.
+   */
   private async updateDeviceState(newValue: number) {
     const side = this.deviceSide as 'solo' | 'left' | 'right';
-    if (newValue === 3) {
-      await this.accessoryClient.turnOnAccessory();
-    } else if (newValue === 0) {
-      await this.accessoryClient.turnOffAccessory();
+    const turnOff = newValue === this.platform.Characteristic.TargetHeatingCoolingState.OFF;
+    const accepted = turnOff
+      ? await this.accessoryClient.turnOffAccessory()
+      : await this.accessoryClient.turnOnAccessory();
+
+    if (!accepted) {
+      this.log.error(`Failed to turn ${turnOff ? 'off' : 'on'} ${this.accessory.context.device.displayName}, rolling back`);
+      await this.rollBackTargetState();
+      throw new this.platform.api.hap.HapStatusError(this.platform.api.hap.HAPStatus.SERVICE_COMMUNICATION_FAILURE);
+    }
+    if (!turnOff) {
+      this.updateTargetMode(newValue);
+      await this.clampTargetToMode();
     }
     this.log.debug(`Toggled device state -> ${newValue} for device:`, side);
-    this.updateCurrentHCState();
+    await this.updateCurrentHCState();
+  }
+
+  private async rollBackTargetState() {
+    try {
+      this.service.updateCharacteristic(this.platform.Characteristic.TargetHeatingCoolingState, await this.fetchTargetState());
+      await this.updateCurrentHCState();
+    } catch (error) {
+      this.log.error('Unable to roll back target state:', error);
+    }
+  }
+
+  private updateTargetMode(newMode: number) {
+    if (newMode === this.targetMode) {
+      return;
+    }
+    this.targetMode = newMode;
+    this.accessory.context.targetMode = newMode;
+    this.platform.api.updatePlatformAccessories([this.accessory]);
+  }
+
+  // When switching to HEAT or COOL, move the current target temp into
+  // the range of the new mode if it's currently outside of it. Limits of
+  // the side take priority over the range of the mode.
+  private async clampTargetToMode() {
+    const currentLevel = await this.fetchTargetLevel();
+    const clampedLevel = this.levelWithinLimits(this.clampLevelToMode(currentLevel));
+
+    if (clampedLevel !== currentLevel) {
+      this.log.info('Adjusted target temp to match new mode:', `${this.tempMapper.levelToCelsius(clampedLevel)}°C`);
+      this.publishTargetLevel(clampedLevel);
+      this.writeTargetLevel(clampedLevel);
+    }
+  }
+
+  // Target temp is published as the thresholds of the HeaterCooler service, or as the fan speed in level mode
+  private publishTargetLevel(targetLevel: number) {
+    if (this.levelMode) {
+      this.service.updateCharacteristic(this.platform.Characteristic.RotationSpeed, this.rotationSpeedFor(targetLevel));
+    } else if (this.heaterCoolerMode) {
+      this.publishThresholds(targetLevel);
+    } else {
+      const targetC = this.tempMapper.levelToCelsius(this.levelWithinLimits(targetLevel));
+      this.service.updateCharacteristic(this.platform.Characteristic.TargetTemperature, targetC);
+    }
+  }
+
+  private publishThresholds(targetLevel: number) {
+    const thresholds = this.thresholdsForTarget(targetLevel);
+    this.service.updateCharacteristic(this.platform.Characteristic.HeatingThresholdTemperature, thresholds.heating);
+    this.service.updateCharacteristic(this.platform.Characteristic.CoolingThresholdTemperature, thresholds.cooling);
+  }
+
+  private targetForThresholds(thresholds: Thresholds) {
+    switch (this.targetMode) {
+      case this.platform.Characteristic.TargetHeatingCoolingState.HEAT:
+        return thresholds.heating;
+      case this.platform.Characteristic.TargetHeatingCoolingState.COOL:
+        return thresholds.cooling;
+      default: {
+        // Midpoint may fall between the temps of the mapping, so use the nearest one
+        const midpointLevel = this.tempMapper.celsiusToLevel((thresholds.heating + thresholds.cooling) / 2);
+        return this.tempMapper.levelToCelsius(midpointLevel);
+      }
+    }
+  }
+
+  /**
+   * Thresholds matching the pod's target level. If the target has been
+   * changed elsewhere (e.g. in the Eight Sleep app, or clamped to the range
+   * of the current mode), the threshold(s) of the current mode are moved to
+   * the new target. In AUTO, the range between the thresholds is kept the same.
+   */
+  private thresholdsForTarget(targetLevel: number): Thresholds {
+    const targetC = this.tempMapper.levelToCelsius(this.levelWithinLimits(targetLevel));
+    const thresholds = this.thresholds ?? { heating: targetC, cooling: targetC };
+    if (this.tempMapper.celsiusToLevel(this.targetForThresholds(thresholds)) === targetLevel) {
+      return thresholds;
+    }
+
+    switch (this.targetMode) {
+      case this.platform.Characteristic.TargetHeatingCoolingState.HEAT:
+        return { ...thresholds, heating: targetC };
+      case this.platform.Characteristic.TargetHeatingCoolingState.COOL:
+        return { ...thresholds, cooling: targetC };
+      default: {
+        const halfRange = (thresholds.cooling - thresholds.heating) / 2;
+        return {
+          heating: Math.max(targetC - halfRange, this.targetMinTempC),
+          cooling: Math.min(targetC + halfRange, this.targetMaxTempC),
+        };
+      }
+    }
+  }
+
+  private async fetchThresholds() {
+    const targetLevel = await this.fetchTargetLevel();
+    return this.thresholdsForTarget(targetLevel);
+  }
+
+  private updateThresholds(thresholds: Thresholds) {
+    if (this.thresholds?.heating === thresholds.heating && this.thresholds?.cooling === thresholds.cooling) {
+      return;
+    }
+    this.thresholds = thresholds;
+    this.accessory.context.thresholds = thresholds;
+    this.platform.api.updatePlatformAccessories([this.accessory]);
+  }
+
+  private async updateThreshold(threshold: Threshold, tempC: number) {
+    const thresholds = { ...await this.fetchThresholds(), [threshold]: tempC };
+
+    // Heating threshold can't be above the cooling threshold, so push the other one along
+    if (threshold === 'heating') {
+      thresholds.cooling = Math.max(thresholds.cooling, tempC);
+    } else {
+      thresholds.heating = Math.min(thresholds.heating, tempC);
+    }
+
+    // Target is checked against the limits before the thresholds are saved,
+    // otherwise rejected thresholds would be restored after a restart
+    const targetC = this.targetForThresholds(thresholds);
+    const targetLevel = this.tempMapper.celsiusToLevel(targetC);
+    if (targetLevel !== undefined) {
+      this.rejectOutsideLimits(this.clampLevelToMode(targetLevel), `${threshold} threshold ${tempC}°C`);
+    }
+    this.updateThresholds(thresholds);
+
+    // Characteristic value is set after this handler returns, so delay
+    // publishing the other threshold in case it's been pushed along too
+    setTimeout(() => this.publishThresholds(this.tempMapper.celsiusToLevel(targetC)), 1000);
+
+    return this.updateTargetTemperature(targetC);
+  }
+
+  // Target of the pod moves to the threshold(s) of the new mode
+  private async updateHeaterCoolerMode(newValue: number) {
+    const thresholds = await this.fetchThresholds();
+    this.updateThresholds(thresholds);
+    this.updateTargetMode(this.targetModeForHeaterCooler(newValue));
+    await this.updateTargetTemperature(this.targetForThresholds(thresholds));
+    this.log.debug(`Changed heater cooler mode -> ${newValue} for device:`, this.deviceSide);
+  }
+
+  // Selected mode is persisted as the equivalent thermostat mode (HEAT, COOL or AUTO)
+  private heaterCoolerTargetValue() {
+    switch (this.targetMode) {
+      case this.platform.Characteristic.TargetHeatingCoolingState.HEAT:
+        return this.platform.Characteristic.TargetHeaterCoolerState.HEAT;
+      case this.platform.Characteristic.TargetHeatingCoolingState.COOL:
+        return this.platform.Characteristic.TargetHeaterCoolerState.COOL;
+      default:
+        return this.platform.Characteristic.TargetHeaterCoolerState.AUTO;
+    }
+  }
+
+  private targetModeForHeaterCooler(value: number) {
+    switch (value) {
+      case this.platform.Characteristic.TargetHeaterCoolerState.HEAT:
+        return this.platform.Characteristic.TargetHeatingCoolingState.HEAT;
+      case this.platform.Characteristic.TargetHeaterCoolerState.COOL:
+        return this.platform.Characteristic.TargetHeatingCoolingState.COOL;
+      default:
+        return this.platform.Characteristic.TargetHeatingCoolingState.AUTO;
+    }
   }
 
 
@@ -213,12 +1046,16 @@ export class EightSleepThermostatAccessory {
    */
   async handleCurrentHeatingCoolingStateGet() {
     this.setPluginAsActive();
-    return this.fetchCurrentState();
+    const currentState = await this.fetchCurrentState();
+    this.throwIfStale(this.accessoryClient, this.platformClient);
+    return currentState;
   }
 
   async handleCurrentTemperatureGet() {
     this.setPluginAsActive();
-    return this.fetchCurrentTemp();
+    const currentTemp = await this.fetchCurrentTemp();
+    this.throwIfStale(this.platformClient);
+    return currentTemp;
   }
 
 
@@ -227,11 +1064,15 @@ export class EightSleepThermostatAccessory {
    */
   async handleTargetTemperatureGet() {
     this.setPluginAsActive();
-    return this.fetchTargetTemp();
+    const targetTemp = await this.fetchTargetTemp();
+    this.throwIfStale(this.accessoryClient);
+    return targetTemp;
   }
 
   async handleTargetTemperatureSet(value: CharacteristicValue) {
     this.setPluginAsActive();
+    this.rejectWhileLocked(`target temp ${value}°C`);
+    await this.rejectWhileAway();
     const targetTemp = value as number;
     return this.updateTargetTemperature(targetTemp);
   }
@@ -242,16 +1083,271 @@ export class EightSleepThermostatAccessory {
    */
   async handleTargetHeatingCoolingStateGet() {
     this.setPluginAsActive();
-    return this.fetchTargetState();
+    const targetState = await this.fetchTargetState();
+    this.throwIfStale(this.accessoryClient);
+    return targetState;
   }
 
   async handleTargetHeatingCoolingStateSet(value: CharacteristicValue) {
     this.setPluginAsActive();
     const newTargetState = value as number;
+    this.rejectWhileLocked(`target state ${newTargetState}`);
+    if (newTargetState !== this.platform.Characteristic.TargetHeatingCoolingState.OFF) {
+      await this.rejectWhileAway();
+    }
     return this.updateDeviceState(newTargetState);
   }
 
 
+  /**
+   * Smart Schedule Handlers
+   */
+  async handleSmartPhaseGet() {
+    this.setPluginAsActive();
+    const schedule = await this.accessoryClient.getSmartSchedule();
+    this.throwIfStale(this.accessoryClient);
+    return schedule?.phase ?? 'off';
+  }
+
+  async handleSmartPhaseTemperatureGet(phase: SmartPhase) {
+    this.setPluginAsActive();
+    const schedule = await this.accessoryClient.getSmartSchedule();
+    this.throwIfStale(this.accessoryClient);
+    const phaseLevel = schedule ? this.levelForPhase(schedule, phase) : 0;
+    return this.tempMapper.levelToCelsius(this.levelWithinLimits(phaseLevel));
+  }
+
+  async handleSmartPhaseTemperatureSet(phase: SmartPhase, value: CharacteristicValue) {
+    this.setPluginAsActive();
+    this.rejectWhileLocked(`smart ${phase} temp ${value}°C`);
+    await this.rejectWhileAway();
+    return this.updateSmartPhaseTemperature(phase, value as number);
+  }
+
+
+  /**
+   * Active Handlers (`level` & `heater-cooler` accessory types)
+   */
+  async handleActiveGet() {
+    this.setPluginAsActive();
+    const accessoryIsOn = await this.accessoryClient.getAccessoryIsOn();
+    this.throwIfStale(this.accessoryClient);
+    return this.activeValue(accessoryIsOn);
+  }
+
+  async handleActiveSet(value: CharacteristicValue) {
+    this.setPluginAsActive();
+    this.rejectWhileLocked(`active ${value}`);
+    const turnOn = value === this.platform.Characteristic.Active.ACTIVE;
+    if (turnOn) {
+      await this.rejectWhileAway();
+    }
+    const accepted = turnOn ? await this.accessoryClient.turnOnAccessory() : await this.accessoryClient.turnOffAccessory();
+    if (!accepted) {
+      this.log.error(`Failed to turn ${turnOn ? 'on' : 'off'} ${this.accessory.context.device.displayName}, rolling back`);
+      const accessoryIsOn = await this.accessoryClient.getAccessoryIsOn();
+      this.service.updateCharacteristic(this.platform.Characteristic.Active, this.activeValue(accessoryIsOn));
+      throw new this.platform.api.hap.HapStatusError(this.platform.api.hap.HAPStatus.SERVICE_COMMUNICATION_FAILURE);
+    }
+    this.log.debug(`Toggled device state -> ${value} for device:`, this.deviceSide);
+
+    if (this.heaterCoolerMode) {
+      this.updateCurrentHCState();
+    }
+  }
+
+
+  /**
+   * Raw Level Handlers (`level` accessory type)
+   */
+
+  async handleRotationSpeedGet() {
+    this.setPluginAsActive();
+    const targetLevel = await this.fetchTargetLevel();
+    this.throwIfStale(this.accessoryClient);
+    return this.rotationSpeedFor(targetLevel);
+  }
+
+  // Sent to client API as is, e.g. -3 in the Eight Sleep app -> level -30
+  async handleRotationSpeedSet(value: CharacteristicValue) {
+    this.setPluginAsActive();
+    this.rejectWhileLocked(`level ${value}`);
+    await this.rejectWhileAway();
+    const targetLevel = Math.round(value as number) * APP_LEVEL_SCALE;
+    this.rejectOutsideLimits(targetLevel, `level ${value}`);
+    this.writeTargetLevel(targetLevel);
+  }
+
+  async handleCurrentBedLevelGet() {
+    this.setPluginAsActive();
+    const currentLevel = await this.platformClient.getCurrentLevel(this.deviceSide);
+    this.throwIfStale(this.platformClient);
+    return currentLevel / APP_LEVEL_SCALE;
+  }
+
+
+  /**
+   * Heater Cooler Handlers (`heater-cooler` accessory type)
+   */
+  async handleCurrentHeaterCoolerStateGet() {
+    this.setPluginAsActive();
+    const currentState = await this.fetchCurrentHeaterCoolerState();
+    this.throwIfStale(this.accessoryClient, this.platformClient);
+    return currentState;
+  }
+
+  async handleTargetHeaterCoolerStateGet() {
+    this.setPluginAsActive();
+    return this.heaterCoolerTargetValue();
+  }
+
+  async handleTargetHeaterCoolerStateSet(value: CharacteristicValue) {
+    this.setPluginAsActive();
+    this.rejectWhileLocked(`heater cooler mode ${value}`);
+    await this.rejectWhileAway();
+    return this.updateHeaterCoolerMode(value as number);
+  }
+
+  async handleThresholdTemperatureGet(threshold: Threshold) {
+    this.setPluginAsActive();
+    const thresholds = await this.fetchThresholds();
+    this.throwIfStale(this.accessoryClient);
+    return thresholds[threshold];
+  }
+
+  async handleThresholdTemperatureSet(threshold: Threshold, value: CharacteristicValue) {
+    this.setPluginAsActive();
+    this.rejectWhileLocked(`${threshold} threshold ${value}°C`);
+    await this.rejectWhileAway();
+    return this.updateThreshold(threshold, value as number);
+  }
+
+
+  /**
+   * Bed Presence Handlers
+   */
+  async handleOccupancyDetectedGet() {
+    const inBed = await this.accessoryClient.getBedPresence();
+    if (inBed !== null) {
+      this.isInBed = inBed;
+    }
+    return this.occupancyValue();
+  }
+
+
+  /**
+   * Away Mode Handlers
+   */
+  async handleAwayGet() {
+    this.setPluginAsActive();
+    const isAway = await this.accessoryClient.getIsAway();
+    this.throwIfStale(this.accessoryClient);
+    return isAway;
+  }
+
+  async handleAwaySet(value: CharacteristicValue) {
+    this.setPluginAsActive();
+    const isAway = value as boolean;
+    this.rejectWhileLocked(`away mode ${isAway ? 'on' : 'off'}`);
+    const accepted = await this.accessoryClient.updateAwayMode(isAway);
+
+    if (!accepted) {
+      this.log.error(`Failed to ${isAway ? 'start' : 'end'} away mode for device:`, this.deviceSide);
+      // Characteristic value is set after this handler returns, so
+      // delay reverting the switch until after it's been set
+      setTimeout(() => this.awayService?.updateCharacteristic(this.platform.Characteristic.On, !isAway), 1000);
+      return;
+    }
+    this.log.info(`${isAway ? 'Started' : 'Ended'} away mode for ${this.accessory.context.device.displayName}`);
+    // Side is reported as off while away
+    this.publishLatestChanges();
+  }
+
+
+  /**
+   * MQTT Command Handlers. Commands received by `MqttBridge` are handled by
+   * the same handlers as HomeKit, so the child lock, away mode & limits of
+   * the side apply to them too. `level` accessories are only on (`auto`) or `off`.
+   */
+  private mqttController(): SideController {
+    return {
+      modes: this.levelMode ? ['off', 'auto'] : ['off', 'auto', 'heat', 'cool'],
+      modeWhileOn: () => this.mqttModeWhileOn(),
+      setTargetTemperature: tempC => this.acceptMqttCommand(() => this.handleTargetTemperatureSet(tempC)),
+      setTargetLevel: level => this.acceptMqttCommand(() => this.handleMqttLevelSet(level)),
+      setMode: mode => this.acceptMqttCommand(() => this.handleMqttModeSet(mode)),
+    };
+  }
+
+  // HomeKit isn't aware of changes from MQTT, so they're published straight away.
+  // Changes rejected by a handler have already been logged.
+  private async acceptMqttCommand(handle: () => Promise<unknown>) {
+    try {
+      await handle();
+    } catch (error) {
+      if (error instanceof this.platform.api.hap.HapStatusError) {
+        return false;
+      }
+      throw error;
+    }
+    this.publishLatestChanges();
+    return true;
+  }
+
+  private mqttModeWhileOn(): MqttMode {
+    if (this.levelMode) {
+      return 'auto';
+    }
+    switch (this.targetMode) {
+      case this.platform.Characteristic.TargetHeatingCoolingState.HEAT:
+        return 'heat';
+      case this.platform.Characteristic.TargetHeatingCoolingState.COOL:
+        return 'cool';
+      default:
+        return 'auto';
+    }
+  }
+
+  // Raw level (-100 to +100), moved into the range of the current mode like a target temp
+  private async handleMqttLevelSet(level: number) {
+    this.setPluginAsActive();
+    this.rejectWhileLocked(`level ${level}`);
+    await this.rejectWhileAway();
+    const targetLevel = this.clampLevelToMode(level);
+    this.rejectOutsideLimits(targetLevel, `level ${level}`);
+
+    if (targetLevel !== level) {
+      this.log.info(`Level ${level} is outside the range of the current mode, using ${targetLevel} instead`);
+    }
+    this.writeTargetLevel(targetLevel);
+  }
+
+  private async handleMqttModeSet(mode: MqttMode) {
+    const { Active, TargetHeaterCoolerState, TargetHeatingCoolingState } = this.platform.Characteristic;
+
+    if (this.levelMode || this.heaterCoolerMode) {
+      await this.handleActiveSet(mode === 'off' ? Active.INACTIVE : Active.ACTIVE);
+      if (this.heaterCoolerMode && mode !== 'off') {
+        const heaterCoolerStates = {
+          auto: TargetHeaterCoolerState.AUTO,
+          heat: TargetHeaterCoolerState.HEAT,
+          cool: TargetHeaterCoolerState.COOL,
+        };
+        await this.handleTargetHeaterCoolerStateSet(heaterCoolerStates[mode]);
+      }
+      return;
+    }
+
+    const targetStates = {
+      off: TargetHeatingCoolingState.OFF,
+      auto: TargetHeatingCoolingState.AUTO,
+      heat: TargetHeatingCoolingState.HEAT,
+      cool: TargetHeatingCoolingState.COOL,
+    };
+    await this.handleTargetHeatingCoolingStateSet(targetStates[mode]);
+  }
+
+
   /**
    * Temperature Display Units Handlers
    */
@@ -269,16 +1365,17 @@ export class EightSleepThermostatAccessory {
 
   /**
    * Adjust equality comparison to account for the `minStep` property
-   * of 0.5 on Target temp. Ensures that display temps are actually
-   * equal when determining the current state. If target state is set
+   * on Target temp. Ensures that display temps are actually equal
+   * when determining the current state. If target state is set
    * to `on` (`Auto`, `Cool`, `Heat`), then current state will display
    * `Idle` in home status when temps are equal.
    */
   private tempsAreEqual(current: number, target: number) {
     const diff = Math.abs(target - current);
-    return (diff <= 0.55);
+    return (diff <= this.minStep * 0.99);
   }
 
+  // @returns `false` (& logs the mismatch) if client API didn't accept the expected level
   private verifyInSyncTemps(targetC: number, targetLevel: number, receivedLevel: number) {
     const formattedC = this.tempMapper.formatCelsius(targetC);
     const clientTargetC = this.tempMapper.levelToCelsius(receivedLevel);
@@ -287,7 +1384,9 @@ export class EightSleepThermostatAccessory {
       const expectation = `${formattedC}°C / ${targetLevel} level`;
       const received = `${clientTargetC}°C / ${receivedLevel} level`;
       this.log.error(`Local/remote temp mismatch. Expected: ${expectation}, but got: ${received}`);
+      return false;
     }
+    return true;
   }
 
 }
\ No newline at end of file
@@ -0,0 +1,139 @@
+import { Service, PlatformAccessory } from 'homebridge';
+import { EightSleepThermostatPlatform } from './platform';
+import { DeviceStatus, PlatformClientAdapter } from './clientAdapter';
+
+/**
+ * Accessory for the state of the pod itself, rather than a side of the bed:
+ *  - FilterMaintenance indicates a change when the water tank is empty or
+ *    needs priming, which (unlike a leak sensor) isn't a critical alert
+ *  - OccupancySensor reports occupied while the pod is priming
+ *
+ * Water & priming status is returned with the `/devices/{id}` response that
+ * is already fetched for the current bed temps, so these sensors share the
+ * same `PlatformClientAdapter` as the thermostat accessories.
+ */
+export class EightSleepPodStatusAccessory {
+  private waterService: Service;
+  private primingService: Service;
+  private readonly log = this.platform.log;
+
+  // Last status received from client, kept so that a failed request
+  // doesn't cause the sensors to flip back to their default state
+  private lastStatus: DeviceStatus | null = null;
+
+  constructor(
+    private readonly platform: EightSleepThermostatPlatform,
+    private readonly accessory: PlatformAccessory,
+    private readonly platformClient: PlatformClientAdapter,
+  ) {
+    this.accessory.getService(this.platform.Service.AccessoryInformation)!
+      .setCharacteristic(this.platform.Characteristic.Manufacturer, 'Eight Sleep')
+      .setCharacteristic(this.platform.Characteristic.Model, 'Pod Pro')
+      .setCharacteristic(this.platform.Characteristic.SerialNumber, this.accessory.context.device.pluginSerial);
+
+    // Replaced by FilterMaintenance, leak sensors show critical alerts
+    const leakService = this.accessory.getService(this.platform.Service.LeakSensor);
+    if (leakService) {
+      this.accessory.removeService(leakService);
+    }
+
+    this.waterService = this.accessory.getService(this.platform.Service.FilterMaintenance) ||
+      this.accessory.addService(this.platform.Service.FilterMaintenance);
+    this.waterService.setCharacteristic(this.platform.Characteristic.Name, 'Water Tank');
+
+    this.waterService.getCharacteristic(this.platform.Characteristic.FilterChangeIndication)
+      .onGet(this.handleFilterChangeIndicationGet.bind(this));
+
+    this.primingService = this.accessory.getService(this.platform.Service.OccupancySensor) ||
+      this.accessory.addService(this.platform.Service.OccupancySensor);
+    this.primingService.setCharacteristic(this.platform.Characteristic.Name, 'Priming');
+
+    this.primingService.getCharacteristic(this.platform.Characteristic.OccupancyDetected)
+      .onGet(this.handleOccupancyDetectedGet.bind(this));
+
+    this.startPolling();
+  }
+
+  /**
+   * Unlike the thermostat, sensor state needs to be checked even while there
+   * is no controller activity, otherwise HomeKit would never be notified
+   * about an empty tank. Poll at a slow rate (`pod-status-interval`, every
+   * 5 minutes by default) in the background & publish any changes from the
+   * most recently fetched device state.
+   */
+  private startPolling() {
+    const scheduler = this.platform.scheduler;
+    scheduler.schedule('Pod status', scheduler.intervals.podStatus, this.pollDeviceStatus);
+  }
+
+  private pollDeviceStatus = async () => {
+    this.platformClient.refreshDeviceStatus();
+    const status = await this.platformClient.loadMostRecentDeviceStatus();
+    this.publishStatus(status);
+  };
+
+  private publishStatus(status: DeviceStatus | null) {
+    if (!status) {
+      return;
+    }
+
+    if (this.lastStatus) {
+      this.logChanges(this.lastStatus, status);
+    }
+    this.lastStatus = status;
+
+    this.waterService.updateCharacteristic(this.platform.Characteristic.FilterChangeIndication, this.tankValue(status));
+    this.primingService.updateCharacteristic(this.platform.Characteristic.OccupancyDetected, this.primingValue(status));
+  }
+
+  private logChanges(previous: DeviceStatus, current: DeviceStatus) {
+    if (previous.hasWater && !current.hasWater) {
+      this.log.warn('Pod water tank is empty, refill the tank to continue heating/cooling');
+    }
+    if (!previous.needsPriming && current.needsPriming) {
+      this.log.warn('Pod needs priming');
+    }
+    if (previous.priming !== current.priming) {
+      this.log.info(current.priming ? 'Pod started priming' : 'Pod finished priming');
+    }
+  }
+
+  private tankValue(status: DeviceStatus | null) {
+    const tankNeedsAttention = status ? !status.hasWater || status.needsPriming : false;
+    return tankNeedsAttention
+      ? this.platform.Characteristic.FilterChangeIndication.CHANGE_FILTER
+      : this.platform.Characteristic.FilterChangeIndication.FILTER_OK;
+  }
+
+  private primingValue(status: DeviceStatus | null) {
+    return status?.priming
+      ? this.platform.Characteristic.OccupancyDetected.OCCUPANCY_DETECTED
+      : this.platform.Characteristic.OccupancyDetected.OCCUPANCY_NOT_DETECTED;
+  }
+
+
+  /**
+   * Sensor Handlers
+   */
+  async handleFilterChangeIndicationGet() {
+    const status = await this.platformClient.getDeviceStatus();
+    this.publishStatus(status);
+    this.throwIfStale();
+    return this.tankValue(this.lastStatus);
+  }
+
+  async handleOccupancyDetectedGet() {
+    const status = await this.platformClient.getDeviceStatus();
+    this.publishStatus(status);
+    this.throwIfStale();
+    return this.primingValue(this.lastStatus);
+  }
+
+  // "No Response" once the last known status is older than `stale-data-limit`
+  private throwIfStale() {
+    if (this.platformClient.staleness > this.platform.scheduler.intervals.staleDataLimit) {
+      throw new this.platform.api.hap.HapStatusError(this.platform.api.hap.HAPStatus.SERVICE_COMMUNICATION_FAILURE);
+    }
+  }
+
+}
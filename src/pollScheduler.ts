@@ -0,0 +1,189 @@
+import { Logger, PlatformConfig } from 'homebridge';
+
+/**
+ * Intervals (in milliseconds) used by the scheduler. Each can be overridden
+ * in `config.json` using the value in seconds, see {@linkcode pollIntervalsFrom()}
+ */
+export interface PollIntervals {
+  // Fetch new state from client API while there is controller activity
+  refresh: number;
+  // Publish most recently fetched state to HomeKit while there is activity
+  publish: number;
+  // Go into standby once there's been no controller activity for this long
+  activeTimeout: number;
+  // Background checks that continue regardless of controller activity
+  presence: number;
+  podStatus: number;
+  sleepSession: number;
+  temperatureHistory: number;
+  // Accessories show "No Response" once requests for their state have been
+  // failing & the last known state is older than this
+  staleDataLimit: number;
+}
+
+const defaultIntervals: PollIntervals = {
+  refresh: 1000 * 10,
+  publish: 1000 * 5,
+  activeTimeout: 1000 * 90,
+  presence: 1000 * 60,
+  podStatus: 1000 * 60 * 5,
+  sleepSession: 1000 * 60 * 30,
+  // Eve expects history entries every 10 minutes
+  temperatureHistory: 1000 * 60 * 10,
+  staleDataLimit: 1000 * 60 * 5,
+};
+
+// Config keys (values in seconds) for each of the configurable intervals
+const intervalConfigKeys: Partial<Record<keyof PollIntervals, string>> = {
+  refresh: 'refresh-interval',
+  activeTimeout: 'active-timeout',
+  presence: 'presence-interval',
+  podStatus: 'pod-status-interval',
+  staleDataLimit: 'stale-data-limit',
+};
+
+export const pollIntervalsFrom = (config: PlatformConfig): PollIntervals => {
+  const intervals = { ...defaultIntervals };
+  for (const [name, configKey] of Object.entries(intervalConfigKeys)) {
+    const seconds = Number(config[configKey as string]);
+    if (seconds > 0) {
+      intervals[name] = seconds * 1000;
+    }
+  }
+  return intervals;
+};
+
+type Task = () => unknown;
+
+export interface ScheduledTask {
+  readonly name: string;
+  readonly interval: number;
+  readonly whileActive: boolean;
+  readonly run: Task;
+  timer: ReturnType<typeof setInterval> | null;
+}
+
+/**
+ * Single scheduler owned by the platform, used by all adapters & accessories
+ * in place of their own `setInterval` loops.
+ *
+ *  - Tasks scheduled `whileActive` only run while a HomeKit controller is
+ *    actively requesting state. Once there's been no activity for longer than
+ *    `activeTimeout`, all of these tasks are paused until the next call to
+ *    {@linkcode markActive()}, limiting unnecessary requests to client API.
+ *  - Background tasks run at their interval regardless of activity.
+ *  - Concurrent `GET` requests for the same endpoint are coalesced by
+ *    {@linkcode request()}, so every caller shares the single in-flight result.
+ *  - All timers are stopped on Homebridge `shutdown` via {@linkcode shutdown()}.
+ */
+export class PollScheduler {
+  private readonly tasks = new Set<ScheduledTask>();
+  private readonly inFlight = new Map<string, Promise<unknown>>();
+
+  // Time of last `GET` handler call by any controller
+  private lastActive = Date.now();
+  private active = true;
+  private stopped = false;
+
+  constructor(
+    private readonly log: Logger,
+    readonly intervals: PollIntervals = defaultIntervals,
+  ) {}
+
+  get isActive() {
+    return this.active;
+  }
+
+  /**
+   * Returns the in-flight request for `endpoint` if there is one, otherwise
+   * starts a new request using `fetch` & shares it until it has settled.
+   * Handling of the response (e.g. updating the last known value) belongs in
+   * `fetch`, so it only happens once for every caller sharing the request.
+   */
+  request<T>(endpoint: string, fetch: () => Promise<T>): Promise<T> {
+    const pending = this.inFlight.get(endpoint);
+    if (pending) {
+      this.log.debug('Joining in-flight request:', endpoint);
+      return pending as Promise<T>;
+    }
+
+    const request = fetch().finally(() => this.inFlight.delete(endpoint));
+    this.inFlight.set(endpoint, request);
+    return request;
+  }
+
+  schedule(name: string, interval: number, run: Task, whileActive = false) {
+    const task: ScheduledTask = { name, interval, run, whileActive, timer: null };
+    this.tasks.add(task);
+
+    if (!this.stopped && (!whileActive || this.active)) {
+      this.startTimer(task);
+    }
+    return task;
+  }
+
+  cancel(task: ScheduledTask) {
+    this.stopTimer(task);
+    this.tasks.delete(task);
+  }
+
+  /**
+   * Called by accessory `GET` handlers. If in standby, every task scheduled
+   * `whileActive` is run immediately & resumes running at its interval.
+   */
+  markActive() {
+    this.lastActive = Date.now();
+
+    if (this.active || this.stopped) {
+      return;
+    }
+
+    this.log.debug('Controller activity detected, resuming refresh');
+    this.active = true;
+    for (const task of this.tasks) {
+      if (task.whileActive) {
+        task.run();
+        this.startTimer(task);
+      }
+    }
+  }
+
+  shutdown() {
+    this.stopped = true;
+    this.tasks.forEach(task => this.stopTimer(task));
+    this.tasks.clear();
+  }
+
+  private startTimer(task: ScheduledTask) {
+    if (task.timer) {
+      return;
+    }
+    task.timer = setInterval(() => this.tick(task), task.interval);
+  }
+
+  private stopTimer(task: ScheduledTask) {
+    if (task.timer) {
+      global.clearInterval(task.timer);
+      task.timer = null;
+    }
+  }
+
+  private tick(task: ScheduledTask) {
+    if (task.whileActive && this.lastActive < Date.now() - this.intervals.activeTimeout) {
+      this.enterStandby();
+      return;
+    }
+    task.run();
+  }
+
+  // Go into standby until next time there is controller activity
+  private enterStandby() {
+    this.log.debug('No recent controller activity, pausing refresh');
+    this.active = false;
+    for (const task of this.tasks) {
+      if (task.whileActive) {
+        this.stopTimer(task);
+      }
+    }
+  }
+}
@@ -0,0 +1,159 @@
+import { Service, PlatformAccessory, CharacteristicValue } from 'homebridge';
+import { EightSleepThermostatPlatform } from './platform';
+import { DeviceStatus, PlatformClientAdapter } from './clientAdapter';
+import { ScheduledTask } from './pollScheduler';
+
+/**
+ * Switch accessory used to start priming the pod from HomeKit.
+ *
+ * Turning the switch on sends a new priming task to the client API. The switch
+ * then stays on for as long as the pod reports `priming`, & turns itself back
+ * off once priming has completed. Turning the switch off doesn't cancel an
+ * in progress priming task (client API doesn't support it), so the switch
+ * will flip back on until priming is finished.
+ */
+export class EightSleepPrimeSwitchAccessory {
+  private service: Service;
+  private readonly log = this.platform.log;
+  private readonly userId = this.accessory.context.device.userId as string;
+
+  // Time priming task was sent -> used to detect tasks that never started
+  private primingRequestedAt: number | null = null;
+  private hasSeenPriming = false;
+  private watchTask?: ScheduledTask | null;
+
+  constructor(
+    private readonly platform: EightSleepThermostatPlatform,
+    private readonly accessory: PlatformAccessory,
+    private readonly platformClient: PlatformClientAdapter,
+  ) {
+    this.accessory.getService(this.platform.Service.AccessoryInformation)!
+      .setCharacteristic(this.platform.Characteristic.Manufacturer, 'Eight Sleep')
+      .setCharacteristic(this.platform.Characteristic.Model, 'Pod Pro')
+      .setCharacteristic(this.platform.Characteristic.SerialNumber, this.accessory.context.device.pluginSerial);
+
+    this.service = this.accessory.getService(this.platform.Service.Switch) ||
+      this.accessory.addService(this.platform.Service.Switch);
+
+    this.service.setCharacteristic(this.platform.Characteristic.Name, accessory.context.device.displayName);
+
+    this.service.getCharacteristic(this.platform.Characteristic.On)
+      .onSet(this.handleOnSet.bind(this))
+      .onGet(this.handleOnGet.bind(this));
+  }
+
+  // Returns `true` if priming was started (or is already in progress)
+  private async startPriming() {
+    const status = await this.platformClient.getDeviceStatus();
+
+    if (!status) {
+      this.log.error('Unable to start priming, failed to fetch current pod status');
+      return false;
+    } else if (status.priming) {
+      this.log.info('Pod is already priming, ignoring request to start priming');
+      this.hasSeenPriming = true;
+      this.watchPriming();
+      return true;
+    } else if (!status.hasWater) {
+      this.log.error('Unable to start priming, the pod water tank is empty. Refill the tank & try again.');
+      return false;
+    }
+
+    const accepted = await this.platformClient.startPriming(this.userId);
+    if (!accepted) {
+      this.log.error('Failed to start priming, request was rejected by Eight Sleep API');
+      return false;
+    }
+
+    this.log.info('Started priming pod');
+    this.primingRequestedAt = Date.now();
+    this.hasSeenPriming = false;
+    this.watchPriming();
+    return true;
+  }
+
+  /**
+   * While a priming task is pending or in progress, check device status
+   * every 30 seconds to determine when it has completed (or failed to start)
+   */
+  private watchPriming() {
+    if (!this.watchTask) {
+      this.watchTask = this.platform.scheduler.schedule('Priming progress', 1000 * 30, this.checkPrimingProgress);
+    }
+  }
+
+  private stopWatching() {
+    if (this.watchTask) {
+      this.platform.scheduler.cancel(this.watchTask);
+      this.watchTask = null;
+    }
+    this.primingRequestedAt = null;
+    this.hasSeenPriming = false;
+  }
+
+  private checkPrimingProgress = async () => {
+    this.platformClient.refreshDeviceStatus();
+    const status = await this.platformClient.loadMostRecentDeviceStatus();
+    if (!status) {
+      return;
+    }
+
+    if (status.priming) {
+      this.hasSeenPriming = true;
+      this.publishSwitchState(true);
+    } else if (this.hasSeenPriming) {
+      this.log.info('Pod finished priming');
+      this.stopWatching();
+      this.publishSwitchState(false);
+    } else if ((this.primingRequestedAt ?? 0) < Date.now() - 1000 * 60 * 5) {
+      this.logPrimingFailure(status);
+      this.stopWatching();
+      this.publishSwitchState(false);
+    }
+  };
+
+  private logPrimingFailure(status: DeviceStatus) {
+    if (!status.hasWater) {
+      this.log.error('Priming failed to start, the pod water tank is empty');
+    } else {
+      this.log.error('Priming failed to start within 5 minutes of request');
+    }
+  }
+
+  private publishSwitchState(isOn: boolean) {
+    this.service.updateCharacteristic(this.platform.Characteristic.On, isOn);
+  }
+
+
+  /**
+   * Switch Handlers
+   */
+  async handleOnGet() {
+    if (this.primingRequestedAt && !this.hasSeenPriming) {
+      // Task has been sent but client hasn't started priming yet
+      return true;
+    }
+    const status = await this.platformClient.getDeviceStatus();
+    if (status?.priming) {
+      // Priming may have been started from the Eight Sleep app
+      this.hasSeenPriming = true;
+      this.watchPriming();
+    }
+    return status?.priming ?? false;
+  }
+
+  async handleOnSet(value: CharacteristicValue) {
+    // Characteristic value is set after this handler returns, so
+    // delay reverting the switch to reflect the actual priming state
+    if (value as boolean) {
+      const isPriming = await this.startPriming();
+      if (!isPriming) {
+        setTimeout(() => this.publishSwitchState(false), 1000);
+      }
+    } else if (this.watchTask) {
+      this.log.info('Priming can\'t be cancelled once started, switch will turn off when priming is complete');
+      setTimeout(() => this.publishSwitchState(true), 1000);
+    }
+  }
+
+}
@@ -0,0 +1,135 @@
+import axios, { AxiosError, AxiosInstance, AxiosRequestConfig } from 'axios';
+import { Logger } from 'homebridge';
+import { OAUTH_TOKEN_URL } from './authStrategy';
+
+// Maximum number of retries for transient failures (5xx, 429 & network errors)
+const MAX_RETRIES = 3;
+const BASE_DELAY = 1000;
+const MAX_DELAY = 1000 * 30;
+// Retries of a request give up once they'd end after this long, since most
+// requests are made from HomeKit handlers (which HomeKit stops waiting for)
+const MAX_RETRY_TIME = 1000 * 10;
+
+// Request methods that are safe to retry after a 5xx or network error. A
+// `POST` creates a new resource/task, so only retried after a 429 or 401.
+const IDEMPOTENT_METHODS = ['get', 'put', 'delete', 'head', 'options'];
+
+// Endpoints that are part of the login flow should never trigger reauth
+const AUTH_ENDPOINTS = ['/login', OAUTH_TOKEN_URL];
+
+interface RetryState {
+  retryCount: number;
+  didReauthenticate: boolean;
+  // Time of the first failure, retries are limited to `MAX_RETRY_TIME` after it
+  failedAt: number;
+}
+
+type RetryableConfig = AxiosRequestConfig & { retryState?: RetryState };
+
+/**
+ * Called after a 401 response. Should resolve once a new session has been
+ * established & the client session headers have been updated.
+ *
+ * @returns `true` if reauthentication succeeded
+ */
+export type Reauthenticator = () => Promise<boolean>;
+
+/**
+ * Attaches a response interceptor to `client` that:
+ *  - On a 401, reauthenticates via `reauthenticate` & replays the request once
+ *  - On a 429, waits for the duration of the `Retry-After` header & retries
+ *  - On a 5xx or network error, retries with exponential backoff & jitter
+ *
+ * Errors are only forwarded to the caller once retries have been exhausted,
+ * or a retry would end more than `MAX_RETRY_TIME` after the first failure.
+ */
+export const attachRetryInterceptor = (client: AxiosInstance, reauthenticate: Reauthenticator, log: Logger) => {
+  return client.interceptors.response.use(undefined, async (error: AxiosError) => {
+    const config = error.config as RetryableConfig | undefined;
+    if (!config || axios.isCancel(error)) {
+      return Promise.reject(error);
+    }
+
+    const state = config.retryState ?? { retryCount: 0, didReauthenticate: false, failedAt: Date.now() };
+    config.retryState = state;
+
+    const status = error.response?.status;
+    const method = (config.method ?? 'get').toLowerCase();
+    const endpoint = config.url ?? '';
+
+    if (status === 401) {
+      if (state.didReauthenticate || AUTH_ENDPOINTS.includes(endpoint)) {
+        return Promise.reject(error);
+      }
+      state.didReauthenticate = true;
+
+      log.debug('Received 401 from Eight Sleep API, reauthenticating before retrying:', endpoint);
+      if (!await reauthenticate()) {
+        return Promise.reject(error);
+      }
+      return client.request(withSessionHeaders(client, config));
+    }
+
+    if (state.retryCount >= MAX_RETRIES || !isRetryable(status, method)) {
+      return Promise.reject(error);
+    }
+
+    const delay = status === 429 ? retryAfterDelay(error) : backoffDelay(state.retryCount);
+    const reason = status ? `status ${status}` : `network error (${error.code ?? error.message})`;
+    if (Date.now() + delay - state.failedAt > MAX_RETRY_TIME) {
+      log.debug(`Request to ${endpoint} failed with ${reason}, not retrying after ${delay}ms (retries are limited to ${MAX_RETRY_TIME}ms)`);
+      return Promise.reject(error);
+    }
+    state.retryCount++;
+
+    log.debug(`Request to ${endpoint} failed with ${reason}, retry ${state.retryCount}/${MAX_RETRIES} in ${delay}ms`);
+
+    await new Promise(resolve => setTimeout(resolve, delay));
+    return client.request(withSessionHeaders(client, config));
+  });
+};
+
+const isRetryable = (status: number | undefined, method: string) => {
+  if (status === 429) {
+    return true;
+  } else if (status === undefined || status >= 500) {
+    return IDEMPOTENT_METHODS.includes(method);
+  }
+  return false;
+};
+
+// Full jitter -> random delay between half & all of the exponential backoff
+const backoffDelay = (retryCount: number) => {
+  const exponential = Math.min(BASE_DELAY * 2 ** retryCount, MAX_DELAY);
+  return Math.round(exponential / 2 + Math.random() * exponential / 2);
+};
+
+// `Retry-After` is either a number of seconds, or an HTTP date
+const retryAfterDelay = (error: AxiosError) => {
+  const retryAfter = error.response?.headers?.['retry-after'];
+  const seconds = Number(retryAfter);
+
+  if (retryAfter && !isNaN(seconds)) {
+    return Math.min(seconds * 1000, MAX_DELAY);
+  }
+
+  const date = retryAfter ? Date.parse(retryAfter) : NaN;
+  if (!isNaN(date)) {
+    return Math.min(Math.max(date - Date.now(), 0), MAX_DELAY);
+  }
+  return backoffDelay((error.config as RetryableConfig).retryState?.retryCount ?? 0);
+};
+
+// Headers of the original request are already flattened, so the session
+// headers must be copied over in case they've changed after reauthentication
+const withSessionHeaders = (client: AxiosInstance, config: RetryableConfig) => {
+  const sessionHeaders = client.defaults.headers.common;
+  config.headers = { ...config.headers };
+
+  for (const header of ['user-id', 'session-token', 'authorization']) {
+    if (sessionHeaders[header] !== undefined) {
+      config.headers[header] = sessionHeaders[header];
+    }
+  }
+  return config;
+};
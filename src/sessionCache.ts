@@ -0,0 +1,208 @@
+import { readFile, writeFile, mkdir, rename, unlink } from 'fs/promises';
+import { createCipheriv, createDecipheriv, randomBytes, scryptSync } from 'crypto';
+import path from 'path';
+import { Logger } from 'homebridge';
+
+/**
+ * Version of the cache file format written by {@linkcode SessionCache}:
+ *  - 1 -> plain JSON of the cached data (written before versioning was added)
+ *  - 2 -> {@linkcode CacheEnvelope} containing the encrypted JSON of the data
+ */
+export const CACHE_VERSION = 2;
+
+interface CacheEnvelope {
+  version: number;
+  // Base64 AES-256-GCM initialization vector, auth tag & ciphertext
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+const CIPHER = 'aes-256-gcm';
+const KEY_SALT = 'homebridge-eightsleepthermostat';
+const MACHINE_ID_FILES = ['/etc/machine-id', '/var/lib/dbus/machine-id'];
+// Generated in the cache directory when there's no machine id (e.g. macOS)
+const SECRET_FILE = '.secret';
+
+// Cached sessions & tokens are only readable by the Homebridge user
+const FILE_MODE = 0o600;
+
+// Keys are shared by the caches of every account, so the secret is only
+// generated (& the key derived) once
+const derivedKeys = new Map<string, Promise<Buffer>>();
+
+/**
+ * Cache files for the session, refresh token & primary user of an account.
+ *
+ *  - Files are written atomically (to a temp file which is then renamed), so
+ *    a crash mid-write can't leave a truncated session behind
+ *  - Files are only readable by the owner (`0600`)
+ *  - Data is encrypted at rest with a key derived from `cache-encryption-key`
+ *    in config, or otherwise from a secret of the machine (see {@linkcode cacheSecret()})
+ *  - Files written by previous versions of the plugin are migrated on read,
+ *    & files that can't be read (corrupt, or encrypted with a different key)
+ *    are moved aside to `{file}.corrupt`, so a new session is created instead
+ */
+export class SessionCache {
+  constructor(
+    private readonly cacheDir: string,
+    private readonly configKey: string | undefined,
+    private readonly log: Logger,
+  ) {}
+
+  /**
+   * @returns the cached data, or `null` if there is no cache (or it had to be discarded)
+   */
+  async read<T>(filepath: string): Promise<T | null> {
+    let contents: string;
+    try {
+      contents = await readFile(filepath, 'utf-8');
+    } catch {
+      return null;
+    }
+
+    try {
+      const parsed = this.parse(contents);
+      // Erased cache of version 1 contains an empty string
+      if (parsed === '' || parsed === null) {
+        return null;
+      } else if (!this.isEnvelope(parsed)) {
+        return await this.migrate<T>(filepath, parsed);
+      } else if (parsed.version !== CACHE_VERSION) {
+        throw new Error(`unsupported cache version ${parsed.version}`);
+      }
+      return this.parse(await this.decrypt(parsed)) as T;
+    } catch (error) {
+      await this.discard(filepath, error);
+      return null;
+    }
+  }
+
+  async write(filepath: string, data: string | object) {
+    const envelope = await this.encrypt(JSON.stringify(data));
+    await this.makeCacheDirectory();
+
+    const tempPath = `${filepath}.${process.pid}.${randomBytes(4).toString('hex')}.tmp`;
+    try {
+      await writeFile(tempPath, JSON.stringify(envelope), { mode: FILE_MODE });
+      await rename(tempPath, filepath);
+    } catch (error) {
+      await unlink(tempPath).catch(() => undefined);
+      throw error;
+    }
+  }
+
+  async erase(filepath: string) {
+    try {
+      await unlink(filepath);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw error;
+      }
+    }
+  }
+
+  // Parse errors include part of the file, which mustn't end up in the log
+  private parse(json: string) {
+    try {
+      return JSON.parse(json);
+    } catch {
+      throw new Error('invalid JSON');
+    }
+  }
+
+  private isEnvelope(parsed: unknown): parsed is CacheEnvelope {
+    return typeof parsed === 'object' && parsed !== null && typeof (parsed as CacheEnvelope).version === 'number';
+  }
+
+  // Version 1 -> rewrite as encrypted version 2. Data is still returned if
+  // it can't be rewritten, migration is then attempted again on next read.
+  private async migrate<T>(filepath: string, data: T) {
+    try {
+      await this.write(filepath, data as unknown as string | object);
+      this.log.debug(`Migrated cache to version ${CACHE_VERSION}:`, path.basename(filepath));
+    } catch (error) {
+      this.log.debug('Unable to migrate cache:', path.basename(filepath), error);
+    }
+    return data;
+  }
+
+  private async discard(filepath: string, error: unknown) {
+    const reason = error instanceof Error ? error.message : error;
+    this.log.warn(`Discarding unreadable cache ${path.basename(filepath)} (${reason})`);
+    await rename(filepath, `${filepath}.corrupt`).catch(() => undefined);
+  }
+
+  private async encrypt(plaintext: string): Promise<CacheEnvelope> {
+    const iv = randomBytes(12);
+    const cipher = createCipheriv(CIPHER, await this.key(), iv);
+    const data = Buffer.concat([cipher.update(plaintext, 'utf-8'), cipher.final()]);
+    return {
+      version: CACHE_VERSION,
+      iv: iv.toString('base64'),
+      tag: cipher.getAuthTag().toString('base64'),
+      data: data.toString('base64'),
+    };
+  }
+
+  // Throws if the data has been modified, or was encrypted with a different key
+  private async decrypt(envelope: CacheEnvelope) {
+    const key = await this.key();
+    try {
+      const decipher = createDecipheriv(CIPHER, key, Buffer.from(envelope.iv, 'base64'));
+      decipher.setAuthTag(Buffer.from(envelope.tag, 'base64'));
+      const data = Buffer.concat([decipher.update(Buffer.from(envelope.data, 'base64')), decipher.final()]);
+      return data.toString('utf-8');
+    } catch {
+      throw new Error('unable to decrypt, the encryption key may have changed');
+    }
+  }
+
+  private key() {
+    const keyId = `${this.cacheDir}:${this.configKey ?? ''}`;
+    let key = derivedKeys.get(keyId);
+    if (!key) {
+      key = this.deriveKey();
+      derivedKeys.set(keyId, key);
+      // Retry on next use if the secret couldn't be loaded
+      key.catch(() => derivedKeys.delete(keyId));
+    }
+    return key;
+  }
+
+  private async deriveKey() {
+    const secret = this.configKey || await this.cacheSecret();
+    return scryptSync(secret, KEY_SALT, 32);
+  }
+
+  /**
+   * Machine id on Linux, otherwise a random secret generated on first run &
+   * stored (owner readable only) alongside the cache files
+   */
+  private async cacheSecret() {
+    for (const file of MACHINE_ID_FILES) {
+      const machineId = await readFile(file, 'utf-8').then(id => id.trim(), () => '');
+      if (machineId) {
+        return machineId;
+      }
+    }
+
+    const secretPath = path.resolve(this.cacheDir, SECRET_FILE);
+    await this.makeCacheDirectory();
+    try {
+      const secret = randomBytes(32).toString('hex');
+      await writeFile(secretPath, secret, { mode: FILE_MODE, flag: 'wx' });
+      return secret;
+    } catch (error) {
+      // Already generated, e.g. by the connection of another account
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+        throw error;
+      }
+      return readFile(secretPath, 'utf-8');
+    }
+  }
+
+  private async makeCacheDirectory() {
+    await mkdir(this.cacheDir, { recursive: true });
+  }
+}
@@ -0,0 +1,70 @@
+import { Logger } from 'homebridge';
+import { MAX_LEVEL, MIN_LEVEL, TwoWayTempMapper } from './twoWayTempMapper';
+
+// Eight Sleep app displays levels from -10 to +10, i.e. client API level / 10
+const APP_LEVEL_SCALE = 10;
+
+/**
+ * Limits of one side of the bed in `config.json` (`left-limits` etc.):
+ *  - `min-temp`/`max-temp` -> in the unit of `temperature-mapping`
+ *  - `min-level`/`max-level` -> -10 to +10, as in the Eight Sleep app
+ *  - `locked` -> reject every change from HomeKit, the state is still shown
+ *
+ * If both a temp & level are set, the narrower of the two is used.
+ */
+export interface SideLimitsConfig {
+  'min-temp'?: number;
+  'max-temp'?: number;
+  'min-level'?: number;
+  'max-level'?: number;
+  locked?: boolean;
+}
+
+// Range of client API levels (-100 to +100) that can be set from HomeKit
+export interface SideLimits {
+  minLevel: number;
+  maxLevel: number;
+  locked: boolean;
+}
+
+export const noLimits: SideLimits = { minLevel: MIN_LEVEL, maxLevel: MAX_LEVEL, locked: false };
+
+export const sideLimitsFrom = (
+  config: SideLimitsConfig | undefined,
+  tempMapper: TwoWayTempMapper,
+  displayName: string,
+  log: Logger,
+): SideLimits => {
+  if (!config) {
+    return noLimits;
+  }
+
+  const isSet = (value?: number): value is number => typeof value === 'number' && Number.isFinite(value);
+  const minLevels = [MIN_LEVEL];
+  const maxLevels = [MAX_LEVEL];
+
+  if (isSet(config['min-level'])) {
+    minLevels.push(Math.round(config['min-level'] * APP_LEVEL_SCALE));
+  }
+  if (isSet(config['max-level'])) {
+    maxLevels.push(Math.round(config['max-level'] * APP_LEVEL_SCALE));
+  }
+  if (isSet(config['min-temp'])) {
+    minLevels.push(tempMapper.tempToLevel(config['min-temp']));
+  }
+  if (isSet(config['max-temp'])) {
+    maxLevels.push(tempMapper.tempToLevel(config['max-temp']));
+  }
+
+  const limits = {
+    minLevel: Math.max(...minLevels),
+    maxLevel: Math.min(...maxLevels),
+    locked: config.locked === true,
+  };
+
+  if (limits.minLevel > limits.maxLevel) {
+    log.error(`Invalid limits for ${displayName}, the minimum is above the maximum. Ignoring min/max limits.`);
+    return { ...noLimits, locked: limits.locked };
+  }
+  return limits;
+};
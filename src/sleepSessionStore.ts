@@ -0,0 +1,67 @@
+import { readFile, writeFile, mkdir } from 'fs/promises';
+import path from 'path';
+import { Logger } from 'homebridge';
+import { SleepSession } from './clientAdapter';
+
+// Number of nights of sleep data kept for each side of the bed
+const MAX_STORED_SESSIONS = 60;
+
+export const sleepSessionsFileFor = (side: string) => `sleep_sessions_${side}.json`;
+
+/**
+ * Persists completed sleep sessions for one side of the bed to a JSON file in
+ * the plugin's storage directory (`sleep_sessions_{side}.json`, see
+ * {@linkcode sleepSessionsFileFor()}), newest first, so that other Homebridge
+ * tooling can consume the data.
+ */
+export class SleepSessionStore {
+  private readonly storageDir = path.dirname(this.filepath);
+  private sessions = this.loadSessions();
+
+  constructor(
+    private readonly filepath: string,
+    private readonly side: string,
+    private readonly log: Logger,
+  ) {}
+
+  private async loadSessions() {
+    try {
+      const data = await readFile(this.filepath, 'utf-8');
+      return JSON.parse(data) as SleepSession[];
+    } catch {
+      this.log.debug('No stored sleep sessions found for side:', this.side);
+      return [];
+    }
+  }
+
+  async latest() {
+    const sessions = await this.sessions;
+    return sessions.length > 0 ? sessions[0] : null;
+  }
+
+  /**
+   * Store `session` if it hasn't previously been recorded
+   *
+   * @returns `true` if session is new, otherwise `false`
+   */
+  async record(session: SleepSession) {
+    const sessions = await this.sessions;
+    if (sessions.some(stored => stored.id === session.id)) {
+      return false;
+    }
+
+    const updated = [session, ...sessions].slice(0, MAX_STORED_SESSIONS);
+    this.sessions = Promise.resolve(updated);
+    await this.writeSessions(updated);
+    return true;
+  }
+
+  private async writeSessions(sessions: SleepSession[]) {
+    try {
+      await mkdir(this.storageDir, { recursive: true });
+      await writeFile(this.filepath, JSON.stringify(sessions, null, 2));
+    } catch (error) {
+      this.log.debug('Unable to write sleep sessions to storage:', error);
+    }
+  }
+}
@@ -0,0 +1,266 @@
+import { readFile, writeFile, mkdir, access } from 'fs/promises';
+import path from 'path';
+import { API, Logger, PlatformAccessory } from 'homebridge';
+import fakegato, { FakeGatoHistoryServiceType } from 'fakegato-history';
+import { EightSleepThermostatPlatform } from './platform';
+import { AccessoryClientAdapter, PlatformClientAdapter } from './clientAdapter';
+import { EightSleepConnection } from './eightSleepConnection';
+
+// Samples older than this are dropped from the store
+const MAX_SAMPLE_AGE = 1000 * 60 * 60 * 24 * 14;
+
+// Nights run from noon until noon the next day (local time)
+const NIGHT_START_HOUR = 12;
+const NIGHT_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Exported nights are written to this directory within the storage directory
+const EXPORTS_DIR = 'exports';
+
+// Service added by fakegato-history, Eve downloads history entries from it
+export const EVE_HISTORY_SERVICE_UUID = 'E863F007-079E-48FF-8F27-9C2605A29F52';
+
+export type ExportFormat = 'csv' | 'json';
+export const exportFormats: ExportFormat[] = ['csv', 'json'];
+
+export interface TemperatureSample {
+  // ISO 8601
+  time: string;
+  // °C, mapped from the levels using `temperature-mapping`
+  currentTemp: number;
+  targetTemp: number;
+  // Client API levels (-100 to +100)
+  currentLevel: number;
+  targetLevel: number;
+  isOn: boolean;
+}
+
+const sampleFields: (keyof TemperatureSample)[] = ['time', 'currentTemp', 'targetTemp', 'currentLevel', 'targetLevel', 'isOn'];
+
+export const temperatureHistoryFileFor = (side: string) => `temperature_history_${side}.json`;
+const eveHistoryFileFor = (side: string) => `eve_history_${side}.json`;
+
+// e.g. 2022-03-14 (local time)
+const localDate = (date: Date) => {
+  const pad = (value: number) => `${value}`.padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+/**
+ * Start & end (ms) of `night`, given as 'YYYY-MM-DD' of the evening the night
+ * started, or `null` if it isn't a valid date
+ */
+export const nightRange = (night: string): [number, number] | null => {
+  const start = new Date(`${night}T00:00:00`);
+  if (!NIGHT_PATTERN.test(night) || isNaN(start.getTime()) || localDate(start) !== night) {
+    return null;
+  }
+  start.setHours(NIGHT_START_HOUR);
+  const end = new Date(start);
+  end.setDate(end.getDate() + 1);
+  return [start.getTime(), end.getTime()];
+};
+
+// Most recent night which has ended, i.e. last night once it's past noon
+export const lastCompletedNight = (now = new Date()) => {
+  const night = new Date(now);
+  night.setDate(night.getDate() - (now.getHours() < NIGHT_START_HOUR ? 2 : 1));
+  return localDate(night);
+};
+
+/**
+ * Persists temperature samples for one side of the bed to a JSON file in the
+ * plugin's storage directory (`temperature_history_{side}.json`, see
+ * {@linkcode temperatureHistoryFileFor()}), oldest first. Only the last 14
+ * days are kept. Any night still in the store can be exported as CSV or JSON.
+ */
+export class TemperatureHistoryStore {
+  private readonly storageDir = path.dirname(this.filepath);
+  private samples = this.loadSamples();
+
+  constructor(
+    private readonly filepath: string,
+    private readonly side: string,
+    private readonly log: Logger,
+  ) {}
+
+  private async loadSamples() {
+    try {
+      const data = await readFile(this.filepath, 'utf-8');
+      return JSON.parse(data) as TemperatureSample[];
+    } catch {
+      this.log.debug('No stored temperature history found for side:', this.side);
+      return [];
+    }
+  }
+
+  async record(sample: TemperatureSample) {
+    const oldest = Date.now() - MAX_SAMPLE_AGE;
+    const samples = await this.samples;
+    const updated = [...samples.filter(stored => Date.parse(stored.time) >= oldest), sample];
+    this.samples = Promise.resolve(updated);
+    await this.writeSamples(updated);
+  }
+
+  // Samples from noon on `night` ('YYYY-MM-DD') until noon the next day
+  async samplesForNight(night: string) {
+    const range = nightRange(night);
+    if (!range) {
+      return null;
+    }
+    const [start, end] = range;
+    const samples = await this.samples;
+    return samples.filter(sample => {
+      const time = Date.parse(sample.time);
+      return time >= start && time < end;
+    });
+  }
+
+  /**
+   * @returns samples of `night` as CSV (with a header row) or a JSON array,
+   * or `null` if the night is invalid or has no samples
+   */
+  async exportNight(night: string, format: ExportFormat) {
+    const samples = await this.samplesForNight(night);
+    if (!samples || samples.length === 0) {
+      return null;
+    } else if (format === 'json') {
+      return JSON.stringify(samples, null, 2);
+    }
+    const rows = samples.map(sample => sampleFields.map(field => sample[field]).join(','));
+    return [sampleFields.join(','), ...rows].join('\n') + '\n';
+  }
+
+  /**
+   * Writes the export of `night` to `exports/temperature_history_{side}_{night}.{format}`
+   * unless it has already been exported
+   *
+   * @returns path of the export, or `null` if nothing was written
+   */
+  async writeNightExport(night: string, format: ExportFormat) {
+    const { name } = path.parse(this.filepath);
+    const exportPath = path.resolve(this.storageDir, EXPORTS_DIR, `${name}_${night}.${format}`);
+    if (await access(exportPath).then(() => true, () => false)) {
+      return null;
+    }
+
+    const contents = await this.exportNight(night, format);
+    if (!contents) {
+      return null;
+    }
+
+    try {
+      await mkdir(path.dirname(exportPath), { recursive: true });
+      await writeFile(exportPath, contents);
+      return exportPath;
+    } catch (error) {
+      this.log.debug('Unable to write temperature history export:', error);
+      return null;
+    }
+  }
+
+  private async writeSamples(samples: TemperatureSample[]) {
+    try {
+      await mkdir(this.storageDir, { recursive: true });
+      await writeFile(this.filepath, JSON.stringify(samples));
+    } catch (error) {
+      this.log.debug('Unable to write temperature history to storage:', error);
+    }
+  }
+}
+
+// fakegato-history creates its classes using the Homebridge API, only needs to be done once
+let FakeGatoHistoryService: FakeGatoHistoryServiceType | undefined;
+const fakeGatoHistoryService = (api: API) => {
+  FakeGatoHistoryService = FakeGatoHistoryService ?? fakegato(api);
+  return FakeGatoHistoryService;
+};
+
+/**
+ * Samples the current temp, target temp & on/off state of one side of the
+ * bed every 10 minutes (regardless of controller activity), recording each
+ * sample in a {@linkcode TemperatureHistoryStore} & as an entry of the Eve
+ * history service added to the accessory, so the Eve app can draw graphs.
+ *
+ * If `temperature-history-export` is set to `csv` or `json`, each night is
+ * also exported to the `exports` directory once it has ended.
+ */
+export class TemperatureHistoryRecorder {
+  private readonly log = this.platform.log;
+  private readonly tempMapper = this.platform.tempMapper;
+  private readonly scheduler = this.platform.scheduler;
+  private readonly exportFormat = this.exportFormatFrom(this.platform.config['temperature-history-export']);
+  private lastExportedNight: string | null = null;
+
+  readonly store = new TemperatureHistoryStore(
+    this.connection.cachePath(temperatureHistoryFileFor(this.side)), this.side, this.log);
+
+  // Entries are only added by the recorder, so fakegato's own timer isn't needed
+  private readonly eveHistory = new (fakeGatoHistoryService(this.platform.api))('thermo', this.accessory, {
+    log: this.log,
+    storage: 'fs',
+    path: this.connection.cacheDir,
+    filename: path.basename(this.connection.cachePath(eveHistoryFileFor(this.side))),
+    disableTimer: true,
+  });
+
+  constructor(
+    private readonly platform: EightSleepThermostatPlatform,
+    private readonly accessory: PlatformAccessory,
+    private readonly connection: EightSleepConnection,
+    private readonly side: 'solo' | 'left' | 'right',
+    private readonly platformClient: PlatformClientAdapter,
+    private readonly accessoryClient: AccessoryClientAdapter,
+  ) {
+    this.scheduler.schedule(`Temperature history ${side}`, this.scheduler.intervals.temperatureHistory, this.recordSample);
+  }
+
+  private exportFormatFrom(format: unknown) {
+    return exportFormats.find(exportFormat => exportFormat === format) ?? null;
+  }
+
+  private recordSample = async () => {
+    // No-ops while the adapters are already refreshing
+    this.platformClient.refreshDeviceStatus();
+    this.accessoryClient.refreshSettings();
+
+    const target = await this.accessoryClient.loadMostRecentTarget();
+    const deviceStatus = await this.platformClient.loadMostRecentDeviceStatus();
+    if (!target || !deviceStatus) {
+      this.log.debug('Skipping temperature history sample, unable to fetch state of side:', this.side);
+      return;
+    }
+
+    const currentLevel = await this.platformClient.loadMostRecentSettings(this.side);
+    const sample: TemperatureSample = {
+      time: new Date().toISOString(),
+      currentTemp: this.tempMapper.levelToCelsius(currentLevel),
+      targetTemp: this.tempMapper.levelToCelsius(target.level),
+      currentLevel: currentLevel,
+      targetLevel: target.level,
+      isOn: target.isOn,
+    };
+    await this.store.record(sample);
+
+    this.eveHistory.addEntry({
+      time: Math.round(Date.parse(sample.time) / 1000),
+      currentTemp: sample.currentTemp,
+      setTemp: sample.targetTemp,
+      valvePosition: sample.isOn ? 100 : 0,
+    });
+
+    await this.exportCompletedNight();
+  };
+
+  private async exportCompletedNight() {
+    const night = lastCompletedNight();
+    if (!this.exportFormat || night === this.lastExportedNight) {
+      return;
+    }
+
+    this.lastExportedNight = night;
+    const exportPath = await this.store.writeNightExport(night, this.exportFormat);
+    if (exportPath) {
+      this.log.info(`Exported temperature history of ${this.accessory.context.device.displayName} (${night}) to:`, exportPath);
+    }
+  }
+}
@@ -1,3 +1,4 @@
+import { Logger, PlatformConfig } from 'homebridge';
 
 /**
  * Maps between 'real temps' (degrees °C/°F), and 'levels' used by client API.
@@ -14,44 +15,132 @@
  * sent to the client API as a value between -100 & +100. Thus, regardless
  * of user's preferred unit setting, the API always processes the values as
  * if there wasn't any units option at all.
+ *
+ * The mapping is defined by a {@linkcode TempCurve}, see `defaultCurves` for
+ * the curves used unless a custom curve is set in `config.json`.
+ */
+
+export type TempUnit = 'fahrenheit' | 'celsius';
+
+export interface CurvePoint {
+  level: number;
+  temperature: number;
+}
+
+/**
+ * Control points of the mapping, ordered by level. Temps for the levels in
+ * between each pair of points are interpolated & rounded to the nearest
+ * step of the curve's unit, i.e. 1°F or 0.5°C.
  */
+export interface TempCurve {
+  unit: TempUnit;
+  points: CurvePoint[];
+}
+
+export const MIN_LEVEL = -100;
+export const MAX_LEVEL = 100;
+
+const unitSteps: Record<TempUnit, number> = {
+  fahrenheit: 1,
+  celsius: 0.5,
+};
+
+/**
+ * Actual min. on Homekit thermostat is 50°, but client API applies a different
+ * weight to 'real' temps when between 50°F-61°F. For this initial lower bound
+ * each 1°F displayed in 8slp app corresponds to a 'level' increase of +1.
+ *  - i.e. between 55°F/61°F, the level ranges from -96 to -90 (each 1°F is
+ *    equivalent to +1 level), whereas above 62°F, each 1°F corresponds to an
+ *    increase of approx. +3 on the client API's 'level' scale.
+ *
+ * Although using 'real' temps in Eight Sleep app doesn't allow going to the
+ * full min and max of -100/+100, this plugin has been developed to enable
+ * users to do so. These curves are also designed to keep the current bed temp
+ * between Eight Sleep app and homekit as consistent as possible to ensure
+ * cooling/heating temps aren't misaligned between the two.
+ *
+ * The `celsius` curve uses the same points, rounded to the nearest 0.5°C.
+ */
+export const defaultCurves: Record<TempUnit, TempCurve> = {
+  fahrenheit: {
+    unit: 'fahrenheit',
+    points: [
+      { level: -100, temperature: 50 },
+      { level: -89, temperature: 61 },
+      { level: -1, temperature: 80 },
+      { level: 2, temperature: 81 },
+      { level: 101, temperature: 113 },
+    ],
+  },
+  celsius: {
+    unit: 'celsius',
+    points: [
+      { level: -100, temperature: 10 },
+      { level: -89, temperature: 16 },
+      { level: -1, temperature: 26.5 },
+      { level: 2, temperature: 27 },
+      { level: 101, temperature: 45 },
+    ],
+  },
+};
+
 export class TwoWayTempMapper {
   private tempsToLvlMap: Record<number, number> = {};
   private lvlsToTempMap: Record<number, number> = {};
+  // Every temp on the curve, ascending
+  private temps: number[] = [];
 
-  private celsiusToF: Record<number, number> = {};
-  private fahrenheitToC: Record<number, number> = {};
+  readonly unit = this.curve.unit;
+  private readonly step = unitSteps[this.unit];
 
-  constructor() {
+  constructor(private readonly curve: TempCurve) {
+    this.validatePoints();
     this.generateMaps();
+    this.verifyRoundTrip();
   }
 
-  public levelToFahrenheit(level: number) {
-    return this.lvlsToTempMap[level];
+  /**
+   * Step, min & max of temperature characteristics. Fahrenheit temps are
+   * displayed in 1°F steps, which is slightly greater than 0.5°C, so max
+   * temp allowed needs to be greater than the max temp of the curve (i.e.
+   * 45.1) to ensure we can set the temp to the max on accessory in Home app.
+   */
+  get minStep() {
+    return this.unit === 'celsius' ? this.step : 0.55556;
   }
 
-  public fahrenheitToLevel(degF: number) {
-    return this.tempsToLvlMap[degF];
+  get minTempC() {
+    return this.levelToCelsius(MIN_LEVEL);
   }
 
-  public levelToCelsius(level: number) {
-    const tempF = this.lvlsToTempMap[level];
-    return this.fahrenheitToC[tempF];
+  get maxTempC() {
+    return this.maxTempCFor(MAX_LEVEL);
   }
 
-  public celsiusToLevel(degC: number) {
-    const formattedC = this.formatCelsius(degC);
-    const tempF = this.celsiusToF[formattedC];
-    return this.tempsToLvlMap[tempF];
+  // Max temp of characteristics when limited to `level` (e.g. limits of a side)
+  public maxTempCFor(level: number) {
+    const maxTempC = this.levelToCelsius(level);
+    return this.unit === 'celsius' ? maxTempC : maxTempC + 0.1;
+  }
+
+  public levelToCelsius(level: number) {
+    const temp = this.lvlsToTempMap[level];
+    if (temp === undefined || this.unit === 'celsius') {
+      return temp;
+    }
+    return this.formatCelsius((temp - 32) * 5/9);
   }
 
-  public fahrenheitToCelsius(degF: number) {
-    return this.fahrenheitToC[degF];
+  // Temps that aren't on the curve (e.g. from a custom characteristic) use
+  // the level of the nearest temp that is
+  public celsiusToLevel(degC: number) {
+    const temp = this.unit === 'celsius' ? degC : degC * 9/5 + 32;
+    return this.tempToLevel(temp);
   }
 
-  public celsiusToFahrenheit(degC: number) {
-    const formattedC = this.formatCelsius(degC);
-    return this.celsiusToF[formattedC];
+  // Temp in the unit of the curve, e.g. from `config.json`
+  public tempToLevel(temp: number) {
+    return this.tempsToLvlMap[this.nearestTemp(temp)];
   }
 
   public formatCelsius(degC: number) {
@@ -59,93 +148,115 @@ export class TwoWayTempMapper {
   }
 
   /**
-     * Actual min. on Homekit thermostat is 50°, but client API applies a different
-     * weight to 'real' temps when between 50°F-61°F. For this initial lower bound
-     * each 1°F displayed in 8slp app corresponds to a 'level' increase of +1.
-     *  - i.e. between 55°F/61°F, the level ranges from -96 to -90 (each 1°F is
-     *    equivalent to +1 level), whereas above 62°F, each 1°F corresponds to an
-     *    increase of approx. +3 on the client API's 'level' scale.
-     *
-     * Due to this, we need to apply some trickery to adjust our local thermostat
-     * temperature to match the API. Although using 'real' temps in Eight Sleep app
-     * doesn't allow going to the full min and max of -100/+100, this plugin has been
-     * developed to enable users to do so. This plugin is also designed to keep the
-     * current bed temp between Eight Sleep app and homekit as consistent as possible
-     * to ensure cooling/heating temps aren't miasligned between the two.
-     *
-     * See {@linkcode calculateTempF()} method below to understand how this works
-     */
-
-  // Min & max cooling temps on thermostat
-  private cooling_tempF_start = 61;
-  private cooling_tempF_end = 80;
-
-  // Range of cooling levels for client
-  private cooling_level_start = -89;
-  private cooling_level_end = -1;
-
-  // Min & max heating temps on thermostat
-  private heating_tempF_start = 81;
-  private heating_tempF_end = 113;
-
-  // Range of heating levels for client
-  private heating_level_start = 2;
-  private heating_level_end = 101;
+   * Levels below 0 make up the cooling half of the range, & levels above 0
+   * make up the heating half. Used to restrict target temps when thermostat
+   * is set to `COOL` or `HEAT` rather than `AUTO`.
+   */
+  public clampToCooling(level: number) {
+    return Math.min(level, this.tempsToLvlMap[this.lvlsToTempMap[-1]]);
+  }
+
+  public clampToHeating(level: number) {
+    return Math.max(level, this.tempsToLvlMap[this.lvlsToTempMap[1]]);
+  }
+
+  private nearestTemp(temp: number) {
+    const rounded = Math.round(temp / this.step) * this.step;
+    if (this.tempsToLvlMap[rounded] !== undefined) {
+      return rounded;
+    }
+    return this.temps.reduce((nearest, t) => Math.abs(t - temp) < Math.abs(nearest - temp) ? t : nearest);
+  }
 
   // Convert client api levels to 'real' temps for thermostat
   private generateMaps() {
-    for (let lvl = -100; lvl <= 100; lvl++) {
-      const tempF = this.calculateTempF(lvl);
-      this.updateRecords(tempF, lvl);
+    for (let lvl = MIN_LEVEL; lvl <= MAX_LEVEL; lvl++) {
+      const temp = this.calculateTemp(lvl);
+      this.updateRecords(temp, lvl);
     }
+    this.temps = Object.keys(this.tempsToLvlMap).map(Number).sort((a, b) => a - b);
   }
 
   // Set temp/level records with inverse keys/values
-  private updateRecords(tempF: number, level: number) {
-    this.lvlsToTempMap[level] = tempF;
-
-    const tempC = this.formatCelsius((tempF - 32) * 5/9);
+  private updateRecords(temp: number, level: number) {
+    this.lvlsToTempMap[level] = temp;
 
-    // Only add to records if we haven't previously added it
-    if (!this.tempsToLvlMap[tempF]) {
-      this.celsiusToF[tempC] = tempF;
-      this.fahrenheitToC[tempF] = tempC;
-      this.tempsToLvlMap[tempF] = level;
+    // Only add to records if we haven't previously added it, i.e. each
+    // temp maps to the lowest level with that temp
+    if (this.tempsToLvlMap[temp] === undefined) {
+      this.tempsToLvlMap[temp] = level;
     }
   }
 
-  private calculateTempF(level: number) {
-    switch (true) {
-      case (level <= -89):
-        // Adjust temp according to (seemingly) arbitrary client api values.
-        // Cooling levels between -100 & -89 from the API correspond to a
-        // single degree difference locally on thermostat
-        return 50 - (-100 - level);
+  // Interpolate between the points on either side of `level`
+  private calculateTemp(level: number) {
+    const points = this.curve.points;
+    const endIndex = Math.max(points.findIndex(point => level <= point.level), 1);
+    const [start, end] = [points[endIndex - 1], points[endIndex]];
 
-      case (level <= this.cooling_level_end):
-        // Cooling level range -88 <= level <= 0
-        // Each 1°F corresponds to approx. +3 on 'level' scale
-        return this.getCoolingTempF(level);
+    const slope = (end.temperature - start.temperature) / (end.level - start.level);
+    return start.temperature + Math.round(slope * (level - start.level) / this.step) * this.step;
+  }
 
-      default:
-        // Heating level range 0 <= level <= 100
-        // Each 1°F corresponds to approx. +3 on 'level' scale
-        return this.getHeatingTempF(level);
+  /**
+   * Checked on startup, throws if the curve can't be used:
+   *  - Must cover every level from -100 to +100
+   *  - Levels must be increasing & temps must never decrease (monotonic)
+   */
+  private validatePoints() {
+    const points = this.curve.points;
+    if (points.length < 2) {
+      throw new Error('Temperature curve needs at least 2 points');
     }
-  }
 
-  private getCoolingTempF(level: number) {
-    const slope = (this.cooling_tempF_end - this.cooling_tempF_start) / (this.cooling_level_end - this.cooling_level_start);
-    const temp = this.cooling_tempF_start + Math.round(slope * (level - this.cooling_level_start));
-    return temp;
+    const invalidPoint = points.find(point => !Number.isFinite(point.level) || !Number.isFinite(point.temperature));
+    if (invalidPoint) {
+      throw new Error(`Invalid point in temperature curve: ${JSON.stringify(invalidPoint)}`);
+    }
+
+    if (points[0].level > MIN_LEVEL || points[points.length - 1].level < MAX_LEVEL) {
+      throw new Error(`Temperature curve must cover every level from ${MIN_LEVEL} to ${MAX_LEVEL}`);
+    }
+
+    for (let i = 1; i < points.length; i++) {
+      const [previous, point] = [points[i - 1], points[i]];
+      if (point.level <= previous.level || point.temperature < previous.temperature) {
+        throw new Error(`Temperature curve isn't monotonic at level ${point.level}`);
+      }
+    }
   }
 
-  private getHeatingTempF(level: number) {
-    const slope = (this.heating_tempF_end - this.heating_tempF_start) / (this.heating_level_end - this.heating_level_start);
-    const temp = this.heating_tempF_start + Math.round(slope * (level - this.heating_level_start));
-    return temp;
+  // Every level must map to a temp, which maps back to a level with the same temp
+  private verifyRoundTrip() {
+    for (let lvl = MIN_LEVEL; lvl <= MAX_LEVEL; lvl++) {
+      const tempC = this.levelToCelsius(lvl);
+      const roundTripLevel = this.celsiusToLevel(tempC);
+
+      if (this.lvlsToTempMap[roundTripLevel] !== this.lvlsToTempMap[lvl]) {
+        throw new Error(`Level ${lvl} (${tempC}°C) doesn't round trip, got level ${roundTripLevel}`);
+      }
+    }
   }
 
 }
 
-export const tempMapper = new TwoWayTempMapper();
\ No newline at end of file
+/**
+ * Creates the mapper for `temperature-mapping` (unit of the curve) using the
+ * custom curve in `temperature-curve` if set. If the custom curve is invalid,
+ * falls back to the default curve for the unit.
+ */
+export const tempMapperFrom = (config: PlatformConfig, log: Logger) => {
+  const unit: TempUnit = config['temperature-mapping'] === 'celsius' ? 'celsius' : 'fahrenheit';
+  const customPoints = config['temperature-curve'] as CurvePoint[] | undefined;
+
+  if (Array.isArray(customPoints) && customPoints.length > 0) {
+    try {
+      const mapper = new TwoWayTempMapper({ unit: unit, points: customPoints });
+      log.info(`Using custom temperature curve (${unit}), ${mapper.minTempC}°C - ${mapper.maxTempC}°C`);
+      return mapper;
+    } catch (error) {
+      log.error('Invalid temperature curve, using default curve instead:', (error as Error).message);
+    }
+  }
+  return new TwoWayTempMapper(defaultCurves[unit]);
+};
@@ -0,0 +1,41 @@
+// Only the parts of fakegato-history used by `TemperatureHistoryRecorder`
+declare module 'fakegato-history' {
+  import { API, Logger, PlatformAccessory, Service } from 'homebridge';
+
+  namespace fakegato {
+    type AccessoryType = 'weather' | 'energy' | 'room' | 'room2' | 'door' | 'motion' | 'switch' | 'thermo' | 'aqua' | 'custom';
+
+    interface HistoryOptions {
+      log?: Logger;
+      // Number of entries kept, 4032 by default
+      size?: number;
+      storage?: 'fs' | 'googleDrive';
+      path?: string;
+      filename?: string;
+      // Entries are only added by `addEntry()` when the timer is disabled
+      disableTimer?: boolean;
+      disableRepeatLastData?: boolean;
+    }
+
+    // e.g. `{ time, currentTemp, setTemp, valvePosition }` for 'thermo' history
+    interface HistoryEntry {
+      // Seconds since the epoch
+      time: number;
+      [field: string]: number;
+    }
+
+    interface FakeGatoHistoryService extends Service {
+      addEntry(entry: HistoryEntry): void;
+    }
+
+    type FakeGatoHistoryServiceType = new (
+      accessoryType: AccessoryType,
+      accessory: PlatformAccessory,
+      options?: HistoryOptions,
+    ) => FakeGatoHistoryService;
+  }
+
+  function fakegato(api: API): fakegato.FakeGatoHistoryServiceType;
+
+  export = fakegato;
+}
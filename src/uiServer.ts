@@ -0,0 +1,200 @@
+import { format } from 'util';
+import { HomebridgePluginUiServer, RequestError } from '@homebridge/plugin-ui-utils';
+import axios from 'axios';
+import { Logger } from 'homebridge';
+import { createClientAPI } from './clientRequest';
+import * as AxiosMock from './axiosMock';
+import { AuthMethod, createAuthStrategy } from './authStrategy';
+import { PlatformClientAdapter } from './clientAdapter';
+import { PollScheduler } from './pollScheduler';
+import { accountKeyFor, partnerAccountKeyFor } from './accounts';
+import { accountCachePath, cacheDirFor } from './eightSleepConnection';
+import { ExportFormat, TemperatureHistoryStore, exportFormats, nightRange, temperatureHistoryFileFor } from './temperatureHistory';
+
+// Credentials of the account selected in the settings UI, which may not have been saved yet
+interface LoginRequest {
+  email?: string;
+  password?: string;
+  'auth-method'?: AuthMethod;
+  'mock-api'?: boolean;
+  // Position of the account in the config, gives each mocked account its own ids
+  index?: number;
+}
+
+// Night of recorded temperature history to export for one side of the selected account
+interface HistoryExportRequest {
+  email?: string;
+  // Top-level `email` account, which has no account key
+  primary?: boolean;
+  'partner-email'?: string;
+  'mock-api'?: boolean;
+  side?: string;
+  // 'YYYY-MM-DD' of the evening the night started
+  night?: string;
+  format?: ExportFormat;
+}
+
+const historySides = ['solo', 'left', 'right'];
+
+interface CurrentDevice {
+  id: string;
+  side: 'solo' | 'left' | 'right';
+}
+
+interface UiConnection {
+  device: CurrentDevice;
+  platformClient: PlatformClientAdapter;
+  scheduler: PollScheduler;
+}
+
+// There's no Homebridge logger in the UI process, output is shown in the Homebridge UI logs
+const prefix = 'Eight Sleep UI';
+const write = (stream: NodeJS.WriteStream, message: string, parameters: unknown[]) => {
+  stream.write(`[${prefix}] ${format(message, ...parameters)}\n`);
+};
+const log: Logger = {
+  prefix,
+  info: (message, ...parameters) => write(process.stdout, message, parameters),
+  warn: (message, ...parameters) => write(process.stderr, message, parameters),
+  error: (message, ...parameters) => write(process.stderr, message, parameters),
+  debug: () => undefined,
+  log: (level, message, ...parameters) => log[level](message, ...parameters),
+};
+
+/**
+ * Server of the custom settings UI shown by Homebridge Config UI X, see
+ * `homebridge-ui/public/index.html`. Runs in its own process while the
+ * settings are open, so credentials can be tested before restarting
+ * Homebridge. Sessions are kept in memory only, the session cache of the
+ * running plugin is never read or replaced.
+ *
+ * Requests:
+ *  - `/login` -> logs in using the same `AuthStrategy` as `EightSleepConnection`,
+ *    then fetches the current device (id & side) from `/users/me`
+ *  - `/status` -> levels of each side & water/priming status of the pod,
+ *    fetched by a `PlatformClientAdapter` for the last successful login
+ *  - `/history/export` -> a night of temperature history recorded by the
+ *    running plugin, as CSV or JSON (read from its storage, without logging in)
+ */
+class EightSleepUiServer extends HomebridgePluginUiServer {
+  private connection: UiConnection | null = null;
+
+  constructor() {
+    super();
+    this.onRequest('/login', this.handleLogin.bind(this));
+    this.onRequest('/status', this.handleStatus.bind(this));
+    this.onRequest('/history/export', this.handleHistoryExport.bind(this));
+    this.ready();
+  }
+
+  async handleLogin(payload: LoginRequest) {
+    if (!payload.email || !payload.password) {
+      throw new RequestError('Enter the email & password of the Eight Sleep account first', {});
+    }
+    this.disconnect();
+
+    const client = createClientAPI();
+    if (payload['mock-api'] || AxiosMock.mockOptionsFromEnv()) {
+      AxiosMock.startIntercepting(client, log, { ...AxiosMock.mockOptionsFromEnv(), instance: payload.index ?? 0 });
+    }
+
+    const auth = createAuthStrategy(payload['auth-method'], client);
+    const { session } = await auth.login({ email: payload.email, password: payload.password })
+      .catch(error => this.rejectWith('Login failed', error));
+    auth.applySessionHeaders(session);
+
+    const response = await client.get('/users/me')
+      .catch(error => this.rejectWith('Logged in, but unable to fetch the account\'s pod', error));
+    const device = response.data['user']?.currentDevice as CurrentDevice | undefined;
+    if (!device?.id || !device.side) {
+      throw new RequestError('Logged in, but there is no pod linked to this account', {});
+    }
+
+    const scheduler = new PollScheduler(log);
+    this.connection = {
+      device: device,
+      platformClient: new PlatformClientAdapter(device.id, client, log, scheduler),
+      scheduler: scheduler,
+    };
+    log.info(`Logged in as ${payload.email} (${auth.method}), pod ${device.id} (${device.side} side)`);
+
+    return {
+      userId: session.userId,
+      deviceId: device.id,
+      side: device.side,
+      authMethod: auth.method,
+      expirationDate: session.expirationDate,
+    };
+  }
+
+  async handleStatus() {
+    if (!this.connection) {
+      throw new RequestError('Test the login first', {});
+    }
+
+    const { device, platformClient } = this.connection;
+    const status = await platformClient.getDeviceStatus();
+    if (!status) {
+      throw new RequestError('Unable to fetch the status of the pod', {});
+    }
+
+    const sides = device.side === 'solo' ? ['solo' as const] : ['left' as const, 'right' as const];
+    const levels: Partial<Record<CurrentDevice['side'], number>> = {};
+    for (const side of sides) {
+      levels[side] = await platformClient.getCurrentLevel(side);
+    }
+
+    return {
+      deviceId: device.id,
+      levels: levels,
+      ...status,
+      updated: new Date().toISOString(),
+    };
+  }
+
+  async handleHistoryExport(payload: HistoryExportRequest) {
+    const { side, night, format } = payload;
+    if (!side || !historySides.includes(side) || !format || !exportFormats.includes(format)) {
+      throw new RequestError('Select the side of the bed & export format', {});
+    } else if (!night || !nightRange(night)) {
+      throw new RequestError('Select the night to export', {});
+    } else if (!payload.email || !this.homebridgeStoragePath) {
+      throw new RequestError('Enter the email of the Eight Sleep account first', {});
+    }
+
+    // Partner's side is recorded using the partner's login (if set), see `EightSleepThermostatPlatform.partnerSideUser()`
+    const accountKeys = [payload.primary ? '' : accountKeyFor(payload.email)];
+    if (payload['partner-email']) {
+      accountKeys.push(partnerAccountKeyFor(payload['partner-email']));
+    }
+
+    const cacheDir = cacheDirFor(this.homebridgeStoragePath, payload['mock-api'] === true || AxiosMock.mockOptionsFromEnv() !== null);
+    for (const accountKey of accountKeys) {
+      const store = new TemperatureHistoryStore(accountCachePath(cacheDir, accountKey, temperatureHistoryFileFor(side)), side, log);
+      const contents = await store.exportNight(night, format);
+      if (contents) {
+        return { fileName: `temperature_history_${side}_${night}.${format}`, contents: contents };
+      }
+    }
+    throw new RequestError(`No temperature history of the ${side} side was recorded on the night of ${night}`, {});
+  }
+
+  private disconnect() {
+    this.connection?.scheduler.shutdown();
+    this.connection = null;
+  }
+
+  // Error shown in the UI, without any details of the request (i.e. credentials)
+  private rejectWith(message: string, error: unknown): never {
+    const status = axios.isAxiosError(error) ? error.response?.status : undefined;
+    let reason = error instanceof Error ? error.message : `${error}`;
+    if (status === 400 || status === 401) {
+      reason = 'incorrect email or password';
+    } else if (status === 429) {
+      reason = 'too many attempts, wait a few minutes before trying again';
+    }
+    throw new RequestError(`${message} - ${reason}`, { status });
+  }
+}
+
+(() => new EightSleepUiServer())();
@@ -0,0 +1,109 @@
+import { AxiosError, AxiosInstance } from 'axios';
+import { createClientAPI } from '../src/clientRequest';
+import { MockEightSleepAPI, mockOptionsFromEnv, startIntercepting } from '../src/axiosMock';
+
+// Requests made straight to the mock, without the retry interceptor
+describe('MockEightSleepAPI', () => {
+  let client: AxiosInstance;
+  let mockAPI: MockEightSleepAPI;
+
+  const login = async () => {
+    const response = await client.post('/login', { email: 'test@example.com', password: 'password' });
+    const session = response.data.session;
+    client.defaults.headers.common['user-id'] = session.userId;
+    client.defaults.headers.common['session-token'] = session.token;
+    return session;
+  };
+
+  const statusOf = (request: Promise<unknown>) => request.then(() => 200, (error: AxiosError) => error.response?.status);
+
+  beforeEach(() => {
+    client = createClientAPI();
+    mockAPI = startIntercepting(client, undefined, { latency: 0 });
+  });
+
+  it('issues a session for the primary user on login', async () => {
+    const session = await login();
+    expect(session.userId).toBe(mockAPI.primaryUserId);
+
+    const response = await client.get('/users/me');
+    expect(response.data.user.currentDevice).toEqual({ id: mockAPI.deviceId, side: 'left' });
+  });
+
+  it('rejects requests without a session', async () => {
+    expect(await statusOf(client.get('/users/me'))).toBe(401);
+  });
+
+  it('rejects requests once sessions have expired', async () => {
+    await login();
+    mockAPI.expireSessions();
+    expect(await statusOf(client.get('/users/me'))).toBe(401);
+
+    await login();
+    expect(await statusOf(client.get('/users/me'))).toBe(200);
+  });
+
+  it('fails the next requests with the scheduled status', async () => {
+    await login();
+    mockAPI.failNext(429);
+    mockAPI.failNext(500, 2);
+
+    const rateLimited = client.get('/users/me').catch((error: AxiosError) => error.response);
+    expect((await rateLimited)?.status).toBe(429);
+    expect((await rateLimited)?.headers['retry-after']).toBe('1');
+    expect(await statusOf(client.get('/users/me'))).toBe(500);
+    expect(await statusOf(client.get('/users/me'))).toBe(500);
+    expect(await statusOf(client.get('/users/me'))).toBe(200);
+  });
+
+  it('updates the target level & state of a side', async () => {
+    await login();
+    const endpoint = `/users/${mockAPI.primaryUserId}/temperature`;
+    await client.put(endpoint, { currentLevel: 30, currentState: { type: 'smart' } });
+
+    expect(mockAPI.stateFor('left')).toMatchObject({ targetLevel: 30, isOn: true });
+    expect(await statusOf(client.put(endpoint, { currentLevel: 101 }))).toBe(400);
+  });
+
+  it('reports presence through the latest sleep interval', async () => {
+    await login();
+    const intervals = async () => (await client.get(`/users/${mockAPI.primaryUserId}/intervals`)).data.intervals;
+
+    mockAPI.setPresence('left', true);
+    const [inBed] = await intervals();
+    expect(inBed.incomplete).toBe(true);
+    expect(inBed.stages[inBed.stages.length - 1].stage).not.toBe('out');
+
+    mockAPI.setPresence('left', false);
+    const [outOfBed] = await intervals();
+    expect(outOfBed.stages[outOfBed.stages.length - 1].stage).toBe('out');
+  });
+
+  it('reports the water tank & priming status of the device', async () => {
+    await login();
+    mockAPI.setWaterState(false);
+    const device = async () => (await client.get(`/devices/${mockAPI.deviceId}`)).data.result;
+    expect(await device()).toMatchObject({ hasWater: false, needsPriming: true });
+
+    expect(await statusOf(client.post(`/devices/${mockAPI.deviceId}/priming/tasks`, {}))).toBe(400);
+    mockAPI.setWaterState(true);
+    expect(await statusOf(client.post(`/devices/${mockAPI.deviceId}/priming/tasks`, {}))).toBe(200);
+    expect(await device()).toMatchObject({ priming: true, needsPriming: false });
+  });
+});
+
+describe('mockOptionsFromEnv()', () => {
+  it('is disabled unless the env var is set', () => {
+    expect(mockOptionsFromEnv({})).toBeNull();
+    expect(mockOptionsFromEnv({ EIGHT_SLEEP_MOCK_API: '0' })).toBeNull();
+  });
+
+  it('reads the side, failure rate & token lifetime', () => {
+    const env = {
+      EIGHT_SLEEP_MOCK_API: 'right',
+      EIGHT_SLEEP_MOCK_FAILURE_RATE: '2',
+      EIGHT_SLEEP_MOCK_TOKEN_LIFETIME: '60000',
+    };
+    expect(mockOptionsFromEnv(env)).toEqual({ side: 'right', failureRate: 1, tokenLifetime: 60000 });
+  });
+});
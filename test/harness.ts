@@ -0,0 +1,140 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { Logger, PlatformAccessory, PlatformConfig } from 'homebridge';
+import { HomebridgeAPI } from 'homebridge/lib/api';
+import { User } from 'homebridge/lib/user';
+import { EightSleepThermostatPlatform } from '../src/platform';
+import { MOCK_ENV_VAR, MockEightSleepAPI } from '../src/axiosMock';
+
+/**
+ * Boots the platform against the local mock API, as Homebridge would on
+ * startup, using a temporary storage directory for the session cache. Resolves
+ * once the accessories have been added & the requests made on startup have
+ * completed, so failures scheduled with `failNext()` are met by the test.
+ *
+ * Logging is captured by `jest.fn()`s, so tests can assert on warnings.
+ */
+export interface TestPlatform {
+  platform: EightSleepThermostatPlatform;
+  api: HomebridgeAPI;
+  log: jest.Mocked<Logger>;
+  mockAPI: MockEightSleepAPI;
+  // Accessories registered with Homebridge (new ones only)
+  accessories: PlatformAccessory[];
+  storagePath: string;
+  shutdown: () => void;
+}
+
+export const createLog = (): jest.Mocked<Logger> => ({
+  prefix: 'Eight Sleep Test',
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+  debug: jest.fn(),
+  log: jest.fn(),
+});
+
+interface LaunchOptions {
+  // Side of the primary user, only configurable with the env var (see `mockOptionsFromEnv()`)
+  side: 'solo' | 'left' | 'right';
+  expectedAccessories: number;
+}
+
+export const launchPlatform = async (
+  config: Partial<PlatformConfig> = {},
+  { side = 'left', expectedAccessories = side === 'solo' ? 1 : 2 }: Partial<LaunchOptions> = {},
+): Promise<TestPlatform> => {
+
+  const storagePath = fs.mkdtempSync(path.join(os.tmpdir(), 'eightsleep-test-'));
+  // Homebridge only allows the storage path to be set once per process
+  jest.spyOn(User, 'storagePath').mockReturnValue(storagePath);
+
+  const api = new HomebridgeAPI();
+  const accessories: PlatformAccessory[] = [];
+  jest.spyOn(api, 'registerPlatformAccessories').mockImplementation((plugin, platform, added) => {
+    accessories.push(...added);
+  });
+
+  const log = createLog();
+  const platformConfig: PlatformConfig = {
+    platform: 'EightSleepThermostat',
+    email: 'test@example.com',
+    password: 'password',
+    'mock-api': true,
+    ...config,
+  };
+
+  process.env[MOCK_ENV_VAR] = side;
+  let platform: EightSleepThermostatPlatform;
+  try {
+    platform = new EightSleepThermostatPlatform(log, platformConfig, api);
+  } finally {
+    delete process.env[MOCK_ENV_VAR];
+  }
+  const mockAPI = platform.connections[0].mockAPI!;
+  const waitForIdle = trackRequests(mockAPI);
+
+  const shutdown = () => {
+    api.signalShutdown();
+    fs.rmSync(storagePath, { recursive: true, force: true });
+  };
+
+  api.signalFinished();
+  try {
+    await waitFor(() => accessories.length >= expectedAccessories);
+    await waitForIdle();
+  } catch (error) {
+    // Scheduled tasks would otherwise keep running (& keep Jest from exiting)
+    shutdown();
+    throw error;
+  }
+
+  return {
+    platform,
+    api,
+    log,
+    mockAPI,
+    accessories,
+    storagePath,
+    shutdown,
+  };
+};
+
+// Resolves once no requests have been in flight for `quietPeriod`
+const trackRequests = (mockAPI: MockEightSleepAPI, quietPeriod = 100) => {
+  let inFlight = 0;
+  let lastCompletedAt = Date.now();
+  const handle = mockAPI.handle.bind(mockAPI);
+  jest.spyOn(mockAPI, 'handle').mockImplementation(async (...args) => {
+    inFlight++;
+    try {
+      return await handle(...args);
+    } finally {
+      inFlight--;
+      lastCompletedAt = Date.now();
+    }
+  });
+  return () => waitFor(() => inFlight === 0 && Date.now() - lastCompletedAt >= quietPeriod);
+};
+
+// Polls `condition` until it's true, failing the test once `timeout` has passed
+export const waitFor = async (condition: () => boolean | Promise<boolean>, timeout = 5000) => {
+  const startedAt = Date.now();
+  while (!await condition()) {
+    if (Date.now() - startedAt > timeout) {
+      throw new Error(`Condition not met within ${timeout}ms`);
+    }
+    await delay(25);
+  }
+};
+
+export const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+export const accessoryNamed = (testPlatform: TestPlatform, displayName: string) => {
+  const accessory = testPlatform.accessories.find(accessory => accessory.displayName === displayName);
+  if (!accessory) {
+    throw new Error(`No accessory named ${displayName}`);
+  }
+  return accessory;
+};
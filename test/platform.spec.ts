@@ -0,0 +1,254 @@
+import axios from 'axios';
+import { PlatformAccessory } from 'homebridge';
+import { AccessoryClientAdapter, PlatformClientAdapter } from '../src/clientAdapter';
+import { EightSleepConnection } from '../src/eightSleepConnection';
+import { TestPlatform, accessoryNamed, launchPlatform, waitFor } from './harness';
+
+// HAP status of characteristics which can't be read, i.e. "No Response"
+const SERVICE_COMMUNICATION_FAILURE = -70402;
+
+describe('EightSleepThermostatPlatform with the mock API', () => {
+  let testPlatform: TestPlatform;
+
+  afterEach(() => {
+    testPlatform?.shutdown();
+    jest.restoreAllMocks();
+  });
+
+  const thermostatOf = (accessory: PlatformAccessory) => accessory.getService(testPlatform.platform.Service.Thermostat)!;
+
+  it('adds an accessory for each side of the pod', async () => {
+    testPlatform = await launchPlatform();
+    const names = testPlatform.accessories.map(accessory => accessory.displayName);
+    expect(names).toEqual(expect.arrayContaining(['Pod Pro Left', 'Pod Pro Right']));
+  });
+
+  it('adds a single accessory for a solo pod', async () => {
+    testPlatform = await launchPlatform({}, { side: 'solo' });
+    const names = testPlatform.accessories.map(accessory => accessory.displayName);
+    expect(names).toContain('Pod Pro Solo');
+    expect(names).not.toContain('Pod Pro Left');
+  });
+
+  it('sends target temps & modes set from HomeKit to the pod', async () => {
+    testPlatform = await launchPlatform();
+    const { Characteristic } = testPlatform.platform;
+    const thermostat = thermostatOf(accessoryNamed(testPlatform, 'Pod Pro Left'));
+
+    await thermostat.getCharacteristic(Characteristic.TargetHeatingCoolingState)
+      .handleSetRequest(Characteristic.TargetHeatingCoolingState.AUTO);
+    await waitFor(() => testPlatform.mockAPI.stateFor('left').isOn);
+
+    await thermostat.getCharacteristic(Characteristic.TargetTemperature).handleSetRequest(30);
+    await waitFor(() => testPlatform.mockAPI.stateFor('left').targetLevel > 0);
+    expect(await thermostat.getCharacteristic(Characteristic.TargetTemperature).handleGetRequest()).toBeCloseTo(30, 0);
+    expect(testPlatform.mockAPI.stateFor('right').isOn).toBe(false);
+  });
+
+  it('rolls back a target temp that throws & still sends later ones', async () => {
+    testPlatform = await launchPlatform();
+    const { Characteristic } = testPlatform.platform;
+    const targetTemp = thermostatOf(accessoryNamed(testPlatform, 'Pod Pro Left')).getCharacteristic(Characteristic.TargetTemperature);
+    const initialTemp = await targetTemp.handleGetRequest();
+    jest.spyOn(AccessoryClientAdapter.prototype, 'updateUserTargetLevel').mockRejectedValueOnce(new Error('Unexpected'));
+
+    await targetTemp.handleSetRequest(30);
+    await waitFor(() => testPlatform.log.error.mock.calls.some(([message]) => message.startsWith('Error updating target temp')));
+    await waitFor(() => targetTemp.value === initialTemp);
+
+    await targetTemp.handleSetRequest(32);
+    await waitFor(() => testPlatform.mockAPI.stateFor('left').targetLevel > 0);
+  });
+
+  it('keeps the previous mode when the side fails to turn on', async () => {
+    testPlatform = await launchPlatform();
+    const { Characteristic } = testPlatform.platform;
+    const accessory = accessoryNamed(testPlatform, 'Pod Pro Left');
+    const targetState = thermostatOf(accessory).getCharacteristic(Characteristic.TargetHeatingCoolingState);
+    jest.spyOn(AccessoryClientAdapter.prototype, 'turnOnAccessory').mockResolvedValueOnce(false);
+
+    await expect(targetState.handleSetRequest(Characteristic.TargetHeatingCoolingState.HEAT)).rejects.toBe(SERVICE_COMMUNICATION_FAILURE);
+    expect(targetState.value).toBe(Characteristic.TargetHeatingCoolingState.OFF);
+    expect(accessory.context.targetMode).not.toBe(Characteristic.TargetHeatingCoolingState.HEAT);
+    expect(testPlatform.mockAPI.stateFor('left').isOn).toBe(false);
+  });
+
+  it('restores a smart schedule temp the pod rejected', async () => {
+    testPlatform = await launchPlatform();
+    const { CustomCharacteristic } = testPlatform.platform;
+    const thermostat = thermostatOf(accessoryNamed(testPlatform, 'Pod Pro Left'));
+    const bedtimeTemp = thermostat.getCharacteristic(CustomCharacteristic.BedtimeTemperature);
+    const initialTemp = await bedtimeTemp.handleGetRequest() as number;
+    jest.spyOn(AccessoryClientAdapter.prototype, 'updateSmartLevel').mockResolvedValueOnce(null);
+
+    await expect(bedtimeTemp.handleSetRequest(initialTemp + 2)).rejects.toBe(SERVICE_COMMUNICATION_FAILURE);
+    expect(bedtimeTemp.value).toBe(initialTemp);
+  });
+
+  it('publishes bed presence of each side', async () => {
+    testPlatform = await launchPlatform({ 'presence-interval': 0.5 });
+    const { Service, Characteristic } = testPlatform.platform;
+    const presence = accessoryNamed(testPlatform, 'Pod Pro Right').getService(Service.OccupancySensor)!;
+    const occupancy = () => presence.getCharacteristic(Characteristic.OccupancyDetected).value;
+
+    testPlatform.mockAPI.setPresence('right', true);
+    await waitFor(() => occupancy() === Characteristic.OccupancyDetected.OCCUPANCY_DETECTED);
+
+    testPlatform.mockAPI.setPresence('right', false);
+    await waitFor(() => occupancy() === Characteristic.OccupancyDetected.OCCUPANCY_NOT_DETECTED);
+  });
+
+  it('only adds the pod status accessory when enabled & indicates when the tank needs attention', async () => {
+    testPlatform = await launchPlatform({ 'pod-status-sensors': true, 'refresh-interval': 0.5 }, { expectedAccessories: 3 });
+    const { Service, Characteristic } = testPlatform.platform;
+    const status = accessoryNamed(testPlatform, 'Pod Pro Status');
+    expect(status.getService(Service.LeakSensor)).toBeUndefined();
+    const tank = status.getService(Service.FilterMaintenance)!.getCharacteristic(Characteristic.FilterChangeIndication);
+    expect(await tank.handleGetRequest()).toBe(Characteristic.FilterChangeIndication.FILTER_OK);
+
+    testPlatform.mockAPI.setWaterState(false);
+    await waitFor(async () => await tank.handleGetRequest() === Characteristic.FilterChangeIndication.CHANGE_FILTER);
+    expect(testPlatform.accessories.map(accessory => accessory.displayName)).not.toContain('Prime Pod');
+  });
+
+  it('reads pod accessory settings of each account, falling back to the top-level setting', async () => {
+    const accounts = [
+      { name: 'Guest Room', email: 'guest-room@example.com', password: 'password' },
+      {
+        name: 'Spare Room', email: 'spare-room@example.com', password: 'password',
+        'prime-switch': false, 'prime-switch-name': 'Prime Spare',
+      },
+    ];
+    testPlatform = await launchPlatform({ 'prime-switch': true, accounts: accounts }, { expectedAccessories: 7 });
+    const primeSwitches = testPlatform.accessories.filter(accessory => accessory.context.device.pluginSerial.endsWith(':Prime'));
+    expect(primeSwitches).toHaveLength(2);
+    expect(primeSwitches.map(accessory => accessory.displayName)).not.toContain('Prime Spare');
+  });
+
+  it('only serves metrics locally unless a host is set', async () => {
+    testPlatform = await launchPlatform({ 'metrics-port': 19151 });
+    const url = 'http://127.0.0.1:19151/metrics';
+    await waitFor(() => testPlatform.log.info.mock.calls.some(([message]) => message === `Serving Prometheus metrics at ${url}`));
+
+    const response = await axios.get(url);
+    expect(response.data).toContain('eightsleep_target_level{device_id=');
+  });
+
+  it('reports No Response once state is stale for longer than the limit', async () => {
+    testPlatform = await launchPlatform({ 'stale-data-limit': 0.1, 'refresh-interval': 0.5 });
+    const { Characteristic } = testPlatform.platform;
+    const currentTemp = thermostatOf(accessoryNamed(testPlatform, 'Pod Pro Left')).getCharacteristic(Characteristic.CurrentTemperature);
+    expect(typeof await currentTemp.handleGetRequest()).toBe('number');
+
+    // 401 -> reauthenticates, then fails again with a 401 -> not retried
+    testPlatform.mockAPI.failNext(401, 100);
+    await waitFor(() => currentTemp.handleGetRequest().then(() => false, status => status === SERVICE_COMMUNICATION_FAILURE));
+  });
+});
+
+describe('EightSleepConnection & client adapters with the mock API', () => {
+  let testPlatform: TestPlatform;
+  let connection: EightSleepConnection;
+
+  beforeEach(async () => {
+    // Background refreshes would otherwise meet the failures scheduled by these tests
+    testPlatform = await launchPlatform({ 'refresh-interval': 3600 });
+    connection = testPlatform.platform.connections[0];
+  });
+
+  afterEach(() => {
+    testPlatform.shutdown();
+    jest.restoreAllMocks();
+  });
+
+  const sessionToken = async () => (await connection.session)?.token;
+
+  // Resolves once the adapter has fetched the user's settings for the first time
+  const accessoryClient = async () => {
+    const { platform, mockAPI } = testPlatform;
+    const client = new AccessoryClientAdapter(mockAPI.primaryUserId, connection.client, platform.log, platform.scheduler);
+    await client.loadMostRecentTarget();
+    return client;
+  };
+
+  it('logs in & finds the pod of the primary user', async () => {
+    expect(await connection.primaryUserDevice).toEqual({ id: testPlatform.mockAPI.deviceId, side: 'left' });
+    expect(await sessionToken()).toBeDefined();
+  });
+
+  it('reauthenticates once the session has expired', async () => {
+    const expiredToken = await sessionToken();
+    testPlatform.mockAPI.expireSessions();
+
+    const response = await connection.client.get('/users/me');
+    expect(response.status).toBe(200);
+    expect(await sessionToken()).not.toBe(expiredToken);
+  });
+
+  it('reauthenticates & retries after a 401', async () => {
+    const client = await accessoryClient();
+    const rejectedToken = await sessionToken();
+    testPlatform.mockAPI.failNext(401);
+
+    const level = await client.updateUserTargetLevel(20);
+    expect(level).toBe(20);
+    expect(testPlatform.mockAPI.stateFor('left').targetLevel).toBe(20);
+    expect(await sessionToken()).not.toBe(rejectedToken);
+  });
+
+  it('waits for Retry-After before retrying after a 429', async () => {
+    testPlatform.mockAPI.failNext(429);
+    const startedAt = Date.now();
+
+    const response = await connection.client.get('/users/me');
+    expect(response.status).toBe(200);
+    expect(Date.now() - startedAt).toBeGreaterThanOrEqual(1000);
+  });
+
+  it('retries after a 500', async () => {
+    testPlatform.mockAPI.failNext(500, 2);
+    const platformClient = new PlatformClientAdapter(
+      testPlatform.mockAPI.deviceId, connection.client, testPlatform.platform.log, testPlatform.platform.scheduler);
+
+    expect(await platformClient.getDeviceStatus()).toEqual({ hasWater: true, needsPriming: false, priming: false });
+    expect(platformClient.staleness).toBe(0);
+  }, 15000);
+
+  it('updates the last known state once for callers sharing a request', async () => {
+    const { platform, mockAPI } = testPlatform;
+    jest.spyOn(platform.scheduler, 'isActive', 'get').mockReturnValue(false);
+    const platformClient = new PlatformClientAdapter(mockAPI.deviceId, connection.client, platform.log, platform.scheduler);
+    const listener = jest.fn();
+    platformClient.onRefresh(listener);
+
+    // Both join the request started by the adapter
+    platformClient.refreshDeviceStatus();
+    platformClient.refreshDeviceStatus();
+    expect(await platformClient.loadMostRecentDeviceStatus()).not.toBeNull();
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  it('gives up once retries of a 500 are exhausted', async () => {
+    testPlatform.mockAPI.failNext(500, 4);
+    await expect(connection.client.get('/users/me')).rejects.toMatchObject({ response: { status: 500 } });
+    expect(await connection.client.get('/users/me')).toMatchObject({ status: 200 });
+  }, 15000);
+
+  it('keeps the last known settings & rolls back when a change fails', async () => {
+    const client = await accessoryClient();
+    const initialLevel = await client.getUserTargetLevel();
+
+    testPlatform.mockAPI.failNext(401, 4);
+    expect(await client.updateUserTargetLevel(initialLevel + 10)).toBeNull();
+    expect(await client.getUserTargetLevel()).toBe(initialLevel);
+    expect(client.staleness).toBeGreaterThan(0);
+    expect(testPlatform.log.warn).toHaveBeenCalledWith(expect.stringContaining('keeping last known value'), expect.any(String));
+  });
+
+  it('reports a side that fails to turn on as still off', async () => {
+    const client = await accessoryClient();
+    testPlatform.mockAPI.failNext(401, 4);
+    expect(await client.turnOnAccessory()).toBe(false);
+    expect(testPlatform.mockAPI.stateFor('left').isOn).toBe(false);
+  });
+});
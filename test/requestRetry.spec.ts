@@ -0,0 +1,36 @@
+import axios, { AxiosRequestConfig } from 'axios';
+import { attachRetryInterceptor } from '../src/requestRetry';
+import { createLog } from './harness';
+
+// Client whose requests are rate limited with `retryAfter` (seconds) until `limitedRequests` have been made
+const rateLimitedClient = (retryAfter: string, limitedRequests: number) => {
+  let requests = 0;
+  const client = axios.create({
+    adapter: async (config: AxiosRequestConfig) => {
+      if (++requests > limitedRequests) {
+        return { status: 200, statusText: 'OK', headers: {}, config: config, data: {} };
+      }
+      const response = { status: 429, statusText: 'Too Many Requests', headers: { 'retry-after': retryAfter }, config: config, data: {} };
+      throw Object.assign(new Error('Request failed with status code 429'), { config, response, isAxiosError: true });
+    },
+  });
+  attachRetryInterceptor(client, async () => true, createLog());
+  return { client, requestCount: () => requests };
+};
+
+describe('attachRetryInterceptor()', () => {
+  it('waits for Retry-After before retrying', async () => {
+    const { client, requestCount } = rateLimitedClient('1', 1);
+    expect((await client.get('/users/me')).status).toBe(200);
+    expect(requestCount()).toBe(2);
+  });
+
+  it('gives up rather than waiting longer than HomeKit would', async () => {
+    const { client, requestCount } = rateLimitedClient('30', 1);
+    const startedAt = Date.now();
+
+    await expect(client.get('/users/me')).rejects.toMatchObject({ response: { status: 429 } });
+    expect(Date.now() - startedAt).toBeLessThan(1000);
+    expect(requestCount()).toBe(1);
+  });
+});
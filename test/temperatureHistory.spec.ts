@@ -0,0 +1,56 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { accountCachePath, cacheDirFor } from '../src/eightSleepConnection';
+import { TemperatureHistoryStore, TemperatureSample, temperatureHistoryFileFor } from '../src/temperatureHistory';
+import { createLog } from './harness';
+
+const sampleAt = (time: string, currentLevel: number): TemperatureSample => ({
+  time: new Date(time).toISOString(),
+  currentTemp: 27 + currentLevel / 10,
+  targetTemp: 27,
+  currentLevel: currentLevel,
+  targetLevel: 0,
+  isOn: true,
+});
+
+describe('TemperatureHistoryStore', () => {
+  let storagePath: string;
+
+  beforeEach(() => {
+    storagePath = fs.mkdtempSync(path.join(os.tmpdir(), 'eightsleep-history-'));
+  });
+
+  afterEach(() => fs.rmSync(storagePath, { recursive: true, force: true }));
+
+  // Path used by the UI server, the same as the recorder of the account's side
+  const storeFor = (samples: TemperatureSample[]) => {
+    const filepath = accountCachePath(cacheDirFor(storagePath, false), 'jane-doe-example-com', temperatureHistoryFileFor('left'));
+    fs.mkdirSync(path.dirname(filepath), { recursive: true });
+    fs.writeFileSync(filepath, JSON.stringify(samples));
+    return new TemperatureHistoryStore(filepath, 'left', createLog());
+  };
+
+  it('exports an earlier night from noon until noon', async () => {
+    const store = storeFor([
+      sampleAt('2022-03-14T11:50:00', 10),
+      sampleAt('2022-03-14T22:00:00', 20),
+      sampleAt('2022-03-15T06:00:00', 30),
+      sampleAt('2022-03-15T12:00:00', 40),
+    ]);
+
+    const csv = await store.exportNight('2022-03-14', 'csv');
+    expect(csv?.trim().split('\n')).toEqual([
+      'time,currentTemp,targetTemp,currentLevel,targetLevel,isOn',
+      `${new Date('2022-03-14T22:00:00').toISOString()},29,27,20,0,true`,
+      `${new Date('2022-03-15T06:00:00').toISOString()},30,27,30,0,true`,
+    ]);
+    expect(JSON.parse(await store.exportNight('2022-03-15', 'json') ?? '[]')).toHaveLength(1);
+  });
+
+  it('has nothing to export for invalid or unrecorded nights', async () => {
+    const store = storeFor([sampleAt('2022-03-14T22:00:00', 20)]);
+    expect(await store.exportNight('2022-03-10', 'csv')).toBeNull();
+    expect(await store.exportNight('2022-02-30', 'csv')).toBeNull();
+  });
+});